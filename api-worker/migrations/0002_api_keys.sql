@@ -0,0 +1,21 @@
+-- Create API keys table (keys are stored as SHA-256 hashes, never in plain text)
+CREATE TABLE IF NOT EXISTS api_keys (
+    id TEXT PRIMARY KEY,
+    tenant_id TEXT NOT NULL,
+    name TEXT,
+    key_hash TEXT NOT NULL UNIQUE,
+    key_prefix TEXT NOT NULL, -- First characters of the key, for identification in listings
+    created_at TEXT NOT NULL,
+    last_used_at TEXT,
+    revoked_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_tenant_id ON api_keys(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_api_keys_key_hash ON api_keys(key_hash);
+
+-- Scope tasks and VMs to the tenant that created them
+ALTER TABLE vm_tasks ADD COLUMN tenant_id TEXT;
+ALTER TABLE vms ADD COLUMN tenant_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_vm_tasks_tenant_id ON vm_tasks(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_vms_tenant_id ON vms(tenant_id);
@@ -0,0 +1,3 @@
+-- Track execution attempts for the retry policy
+ALTER TABLE vm_tasks ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE vm_tasks ADD COLUMN last_attempt_at TEXT;
@@ -0,0 +1,39 @@
+-- Add the dead_lettered status for messages that exhausted their queue retries.
+-- SQLite cannot alter a CHECK constraint, so the table is rebuilt.
+CREATE TABLE IF NOT EXISTS vm_tasks_new (
+    id TEXT PRIMARY KEY,
+    type TEXT NOT NULL CHECK (type IN ('launch_vm', 'delete_vm', 'stop_vm', 'pause_vm', 'snapshot_vm', 'run_command')),
+    vm_name TEXT NOT NULL,
+    vm_config TEXT, -- JSON string for VM configuration
+    payload TEXT, -- JSON string for type-specific fields (snapshotId, command, blocking)
+    target_server TEXT DEFAULT 'default',
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'dead_lettered')),
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    completed_at TEXT,
+    error_message TEXT,
+    result TEXT, -- JSON string for task results
+    tenant_id TEXT,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_attempt_at TEXT
+);
+
+INSERT INTO vm_tasks_new (
+    id, type, vm_name, vm_config, payload, target_server, status,
+    created_at, updated_at, completed_at, error_message, result, tenant_id,
+    attempts, last_attempt_at
+)
+SELECT
+    id, type, vm_name, vm_config, payload, target_server, status,
+    created_at, updated_at, completed_at, error_message, result, tenant_id,
+    attempts, last_attempt_at
+FROM vm_tasks;
+
+DROP TABLE vm_tasks;
+ALTER TABLE vm_tasks_new RENAME TO vm_tasks;
+
+CREATE INDEX IF NOT EXISTS idx_vm_tasks_status ON vm_tasks(status);
+CREATE INDEX IF NOT EXISTS idx_vm_tasks_created_at ON vm_tasks(created_at);
+CREATE INDEX IF NOT EXISTS idx_vm_tasks_vm_name ON vm_tasks(vm_name);
+CREATE INDEX IF NOT EXISTS idx_vm_tasks_type ON vm_tasks(type);
+CREATE INDEX IF NOT EXISTS idx_vm_tasks_tenant_id ON vm_tasks(tenant_id);
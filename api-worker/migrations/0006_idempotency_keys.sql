@@ -0,0 +1,5 @@
+-- Idempotency-Key header of the request that created the task
+ALTER TABLE vm_tasks ADD COLUMN idempotency_key TEXT;
+ALTER TABLE vm_tasks ADD COLUMN request_hash TEXT; -- SHA-256 of the request body, to detect conflicting reuse
+
+CREATE INDEX IF NOT EXISTS idx_vm_tasks_idempotency_key ON vm_tasks(idempotency_key);
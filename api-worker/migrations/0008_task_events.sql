@@ -0,0 +1,14 @@
+-- Create task events table (timeline of everything that happened to a task)
+CREATE TABLE IF NOT EXISTS vm_task_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    task_id TEXT NOT NULL,
+    event_type TEXT NOT NULL, -- created, enqueued, claimed, status_changed, cancel_requested, lease_expired
+    from_status TEXT,
+    to_status TEXT,
+    consumer_id TEXT,
+    message TEXT,
+    details TEXT, -- JSON string for event specific data
+    created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_vm_task_events_task_id ON vm_task_events(task_id);
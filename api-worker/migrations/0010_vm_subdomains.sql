@@ -0,0 +1,12 @@
+-- Names like My_VM and my-vm were sanitized to the same subdomain, and the tunnel config
+-- routes it to the VM launched last. Keep the subdomain only on that VM (most recently
+-- updated) so the unique index below can be created.
+UPDATE vms SET subdomain = NULL
+WHERE subdomain IS NOT NULL AND EXISTS (
+    SELECT 1 FROM vms AS newer
+    WHERE newer.subdomain = vms.subdomain
+      AND (newer.updated_at > vms.updated_at OR (newer.updated_at = vms.updated_at AND newer.id > vms.id))
+);
+
+-- Each subdomain can only be routed to one VM
+CREATE UNIQUE INDEX IF NOT EXISTS idx_vms_subdomain_unique ON vms(subdomain) WHERE subdomain IS NOT NULL;
@@ -0,0 +1,2 @@
+-- Remember which bare-metal host a VM runs on, so follow-up tasks are routed to it
+ALTER TABLE vms ADD COLUMN server TEXT;
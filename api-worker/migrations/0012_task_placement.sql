@@ -0,0 +1,2 @@
+-- Why a launch without a targetServer has not been placed on a host yet
+ALTER TABLE vm_tasks ADD COLUMN placement_error TEXT;
@@ -0,0 +1,2 @@
+-- Dispatch priority of a task (low, normal, high, urgent)
+ALTER TABLE vm_tasks ADD COLUMN priority TEXT NOT NULL DEFAULT 'normal' CHECK (priority IN ('low', 'normal', 'high', 'urgent'));
@@ -0,0 +1,26 @@
+-- Recurring task templates, each cron tick creates a new vm_tasks row
+CREATE TABLE IF NOT EXISTS vm_schedules (
+    id TEXT PRIMARY KEY,
+    tenant_id TEXT,
+    name TEXT,
+    cron_expression TEXT NOT NULL, -- 5 fields (minute hour day-of-month month day-of-week), UTC
+    task_type TEXT NOT NULL CHECK (task_type IN ('launch_vm', 'delete_vm', 'stop_vm', 'pause_vm', 'snapshot_vm', 'run_command')),
+    vm_name TEXT NOT NULL,
+    payload TEXT NOT NULL, -- JSON string of the task payload template
+    priority TEXT NOT NULL DEFAULT 'normal' CHECK (priority IN ('low', 'normal', 'high', 'urgent')),
+    status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused')),
+    next_run_at TEXT,
+    last_run_at TEXT,
+    last_task_id TEXT, -- Task created by the last run, its status is the schedule's last result
+    last_error TEXT, -- Why the last run could not create a task
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_vm_schedules_status_next_run_at ON vm_schedules(status, next_run_at);
+CREATE INDEX IF NOT EXISTS idx_vm_schedules_tenant_id ON vm_schedules(tenant_id);
+
+-- Tasks created by a schedule point back to it
+ALTER TABLE vm_tasks ADD COLUMN schedule_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_vm_tasks_schedule_id ON vm_tasks(schedule_id);
@@ -0,0 +1,5 @@
+-- Optional time-to-live of a VM, expired VMs are deleted by the cron trigger
+ALTER TABLE vms ADD COLUMN expires_at TEXT;
+ALTER TABLE vms ADD COLUMN expiry_task_id TEXT; -- delete_vm task issued when the VM expired
+
+CREATE INDEX IF NOT EXISTS idx_vms_expires_at ON vms(expires_at);
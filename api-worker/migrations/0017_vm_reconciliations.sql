@@ -0,0 +1,8 @@
+-- Latest drift report of each server, comparing Arrakis and the tunnel config against vms
+CREATE TABLE IF NOT EXISTS vm_reconciliations (
+    server TEXT PRIMARY KEY,
+    consumer_id TEXT,
+    report TEXT NOT NULL, -- JSON string of the drift found
+    repaired INTEGER NOT NULL DEFAULT 0, -- Whether the drift was repaired
+    reported_at TEXT NOT NULL
+);
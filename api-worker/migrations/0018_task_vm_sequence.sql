@@ -0,0 +1,12 @@
+-- Submission order of the tasks of each VM, the consumer worker runs them in this order
+ALTER TABLE vm_tasks ADD COLUMN vm_sequence INTEGER;
+
+-- Number existing tasks by creation time
+UPDATE vm_tasks SET vm_sequence = (
+    SELECT COUNT(*) FROM vm_tasks AS earlier
+    WHERE earlier.vm_name = vm_tasks.vm_name
+      AND (earlier.created_at < vm_tasks.created_at
+        OR (earlier.created_at = vm_tasks.created_at AND earlier.id <= vm_tasks.id))
+);
+
+CREATE INDEX IF NOT EXISTS idx_vm_tasks_vm_name_sequence ON vm_tasks(vm_name, vm_sequence);
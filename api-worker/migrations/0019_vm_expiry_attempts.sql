@@ -0,0 +1,2 @@
+-- Number of delete_vm tasks issued for an expired VM, the sweep gives up after a few
+ALTER TABLE vms ADD COLUMN expiry_attempts INTEGER NOT NULL DEFAULT 0;
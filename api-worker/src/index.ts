@@ -1,15 +1,73 @@
 import { Hono } from 'hono';
 import { cors } from 'hono/cors';
+import { createMiddleware } from 'hono/factory';
 import { v4 as uuidv4 } from 'uuid';
+import { DurableObject } from 'cloudflare:workers';
 
 type Bindings = {
   DB: D1Database;
   VM_TASK_QUEUE: Queue;
+  CONSUMER_WORKER: Fetcher;
+  TASK_EVENTS: DurableObjectNamespace<TaskEventHub>;
+  WEBHOOK_QUEUE: Queue<WebhookQueueMessage>;
+  ADMIN_API_KEY: string;
+  RETRY_POLICIES?: string;
+  BASE_DOMAIN: string;
 };
 
+type Variables = {
+  // null when the request is authenticated with the admin key (unscoped)
+  tenantId: string | null;
+  isAdmin: boolean;
+};
+
+const TASK_TYPES = ['launch_vm', 'delete_vm', 'stop_vm', 'pause_vm', 'snapshot_vm', 'run_command'] as const;
+
+type TaskType = typeof TASK_TYPES[number];
+
+// Dispatch priorities, lowest first
+const TASK_PRIORITIES = ['low', 'normal', 'high', 'urgent'] as const;
+
+type TaskPriority = typeof TASK_PRIORITIES[number];
+
+type TaskStatus = 'scheduled' | 'pending' | 'processing' | 'completed' | 'failed' | 'dead_lettered' | 'cancelled';
+
+const TERMINAL_STATUSES: TaskStatus[] = ['completed', 'failed', 'dead_lettered', 'cancelled'];
+
+// Allowed status transitions, anything else is rejected with a 409
+const TASK_TRANSITIONS: Record<TaskStatus, TaskStatus[]> = {
+  // Enqueued by the cron trigger once runAt is due
+  scheduled: ['pending', 'cancelled'],
+  pending: ['processing', 'cancelled', 'dead_lettered'],
+  // Back to pending when an attempt is retried or its claim lease expires
+  processing: ['completed', 'failed', 'cancelled', 'pending'],
+  completed: [],
+  // Manual retry
+  failed: ['pending'],
+  // Replay from the dead-letter queue
+  dead_lettered: ['pending'],
+  cancelled: []
+};
+
+function isTaskStatus(value: any): value is TaskStatus {
+  return typeof value === 'string' && Object.hasOwn(TASK_TRANSITIONS, value);
+}
+
+// Transitions task reporters (local consumers, the consumer worker) may make through
+// PUT /vm/tasks/:taskId/status. The others go with an enqueue and are made by the retry,
+// replay and scheduling code paths.
+const REPORTED_TRANSITIONS: Partial<Record<TaskStatus, TaskStatus[]>> = {
+  pending: ['processing', 'dead_lettered'],
+  processing: ['completed', 'failed', 'cancelled', 'pending']
+};
+
+function canReportTransition(from: TaskStatus, to: TaskStatus): boolean {
+  return (REPORTED_TRANSITIONS[from] || []).includes(to);
+}
+
 interface VMTask {
   id: string;
-  type: 'launch_vm' | 'delete_vm';
+  type: TaskType;
   payload: {
     vmName: string;
     vmConfig?: {
@@ -19,8 +77,26 @@ interface VMTask {
       imageUrl?: string;
     };
     targetServer?: string;
+    snapshotId?: string;
+    command?: string;
+    blocking?: boolean;
+    // launch_vm only: how long the VM lives (seconds or "30m", "2h", "7d") or until when
+    ttl?: number | string;
+    expiresAt?: string;
   };
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: TaskStatus;
+  priority: TaskPriority;
+  tenantId?: string | null;
+  idempotencyKey?: string;
+  callbackUrl?: string;
+  attempts?: number;
+  lastAttemptAt?: string;
+  cancelRequestedAt?: string;
+  placementError?: string;
+  runAt?: string;
+  scheduleId?: string;
+  // Position among the tasks of the same VM, assigned on insert
+  vmSequence?: number;
   createdAt: string;
   updatedAt: string;
   completedAt?: string;
@@ -28,6 +104,57 @@ interface VMTask {
   result?: any;
 }
 
+type TaskEventType = 'created' | 'enqueued' | 'claimed' | 'status_changed' | 'cancel_requested' | 'lease_expired' | 'placed' | 'placement_pending' | 'rescheduled';
+
+// Events the consumer worker reports through POST /vm/tasks/:taskId/events
+const CONSUMER_EVENT_TYPES: TaskEventType[] = ['claimed', 'lease_expired'];
+
+interface TaskEvent {
+  taskId: string;
+  type: TaskEventType;
+  fromStatus?: TaskStatus;
+  toStatus?: TaskStatus;
+  consumerId?: string;
+  message?: string;
+  details?: any;
+}
+
+interface TenantSettings {
+  tenantId: string;
+  webhookUrl?: string;
+  webhookSecret: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface WebhookQueueMessage {
+  deliveryId: string;
+}
+
+// Deliveries are retried with backoff (30s, 1m, 2m, ...) up to this many attempts
+const MAX_WEBHOOK_ATTEMPTS = 6;
+const WEBHOOK_BASE_DELAY_SECONDS = 30;
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+const WEBHOOK_QUEUE_NAME = 'vm-webhook-queue';
+
+interface RetryPolicy {
+  maxAttempts: number;
+  baseDelaySeconds: number;
+  maxDelaySeconds: number;
+}
+
+// Per task type retry policies, can be overridden with the RETRY_POLICIES variable (JSON)
+const DEFAULT_RETRY_POLICIES: Record<TaskType, RetryPolicy> = {
+  launch_vm: { maxAttempts: 3, baseDelaySeconds: 30, maxDelaySeconds: 300 },
+  delete_vm: { maxAttempts: 5, baseDelaySeconds: 30, maxDelaySeconds: 600 },
+  stop_vm: { maxAttempts: 3, baseDelaySeconds: 15, maxDelaySeconds: 120 },
+  pause_vm: { maxAttempts: 3, baseDelaySeconds: 15, maxDelaySeconds: 120 },
+  snapshot_vm: { maxAttempts: 3, baseDelaySeconds: 60, maxDelaySeconds: 600 },
+  // Commands are not necessarily idempotent, so they are not retried by default
+  run_command: { maxAttempts: 1, baseDelaySeconds: 30, maxDelaySeconds: 300 }
+};
+
 interface VM {
   id: string;
   name: string;
@@ -38,238 +165,2758 @@ interface VM {
   createdAt: string;
   updatedAt: string;
   metadata?: any;
+  tenantId?: string | null;
+  server?: string | null;
+  expiresAt?: string | null;
+  expiryTaskId?: string | null;
 }
 
-const app = new Hono<{ Bindings: Bindings }>();
+interface ApiKey {
+  id: string;
+  tenantId: string;
+  name?: string;
+  keyPrefix: string;
+  createdAt: string;
+  lastUsedAt?: string;
+  revokedAt?: string;
+}
 
-// Enable CORS
-app.use('*', cors({
-  origin: '*',
-  allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowHeaders: ['Content-Type', 'Authorization'],
-}));
+type ScheduleStatus = 'active' | 'paused';
 
-// Database helper functions
-async function createTask(db: D1Database, task: VMTask): Promise<void> {
-  await db.prepare(`
-    INSERT INTO vm_tasks (
-      id, type, vm_name, vm_config, target_server, status, 
-      created_at, updated_at
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
-  `)
-  .bind(
-    task.id,
-    task.type,
-    task.payload.vmName,
-    JSON.stringify(task.payload.vmConfig || {}),
-    task.payload.targetServer || 'default',
-    task.status,
-    task.createdAt,
-    task.updatedAt
-  )
-  .run();
+interface VMSchedule {
+  id: string;
+  tenantId: string | null;
+  name?: string;
+  cronExpression: string;
+  type: TaskType;
+  vmName: string;
+  payload: any;
+  priority: TaskPriority;
+  status: ScheduleStatus;
+  nextRunAt?: string;
+  lastRunAt?: string;
+  lastTaskId?: string;
+  lastError?: string;
+  createdAt: string;
+  updatedAt: string;
 }
 
-async function getTask(db: D1Database, taskId: string): Promise<VMTask | null> {
-  const result = await db.prepare(`
-    SELECT * FROM vm_tasks WHERE id = ?
-  `).bind(taskId).first();
+// Differences between what runs on an Arrakis host and what D1 records for it
+interface DriftReport {
+  server: string;
+  // Recorded VMs that don't exist on the host
+  missing: string[];
+  // VMs on the host without a record
+  untracked: { vmName: string; status: string }[];
+  statusMismatches: { vmName: string; recordedStatus: string; actualStatus: string }[];
+  // Tunnel ingress hostnames whose VM doesn't exist on the host
+  orphanedIngress: string[];
+}
 
-  if (!result) return null;
+// Allowed values of each field of a cron expression
+interface CronExpression {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Like cron: when both day fields are restricted, a day matching either one runs
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
 
-  return {
-    id: result.id as string,
-    type: result.type as 'launch_vm' | 'delete_vm',
-    payload: {
-      vmName: result.vm_name as string,
-      vmConfig: result.vm_config ? JSON.parse(result.vm_config as string) : {},
-      targetServer: result.target_server as string
-    },
-    status: result.status as 'pending' | 'processing' | 'completed' | 'failed',
-    createdAt: result.created_at as string,
-    updatedAt: result.updated_at as string,
-    completedAt: result.completed_at as string,
-    error: result.error_message as string,
-    result: result.result ? JSON.parse(result.result as string) : undefined
-  };
+// Pushed to streaming clients whenever a task changes status
+interface TaskStreamEvent {
+  taskId: string;
+  type: TaskType;
+  vmName: string;
+  status: TaskStatus;
+  error?: string;
+  result?: any;
+  attempts?: number;
+  timestamp: string;
 }
 
-async function updateTaskStatus(
-  db: D1Database, 
-  taskId: string, 
-  status: string, 
-  error?: string, 
-  result?: any
-): Promise<boolean> {
-  const now = new Date().toISOString();
-  const completedAt = (status === 'completed' || status === 'failed') ? now : null;
+interface StreamSubscriber {
+  writer: WritableStreamDefaultWriter<Uint8Array>;
+  // null for the firehose of all tasks
+  taskId: string | null;
+  // Last status sent on a task stream
+  lastStatus?: TaskStatus;
+}
 
-  const updateResult = await db.prepare(`
-    UPDATE vm_tasks 
-    SET status = ?, updated_at = ?, completed_at = ?, error_message = ?, result = ?
-    WHERE id = ?
-  `)
-  .bind(
-    status,
-    now,
-    completedAt,
-    error || null,
-    result ? JSON.stringify(result) : null,
-    taskId
-  )
-  .run();
+// Hub receiving events of every tenant, used by admin streams
+const ALL_TENANTS_HUB = '*';
+
+const STREAM_PING_INTERVAL_MS = 25 * 1000;
+
+/**
+ * One instance per tenant (plus one for all tenants). Holds the open
+ * Server-Sent Events streams and fans out the task updates published by
+ * the status endpoints, which run in other isolates.
+ */
+export class TaskEventHub extends DurableObject<Bindings> {
+  private subscribers = new Set<StreamSubscriber>();
+  private encoder = new TextEncoder();
+
+  async fetch(request: Request): Promise<Response> {
+    const { taskId, snapshot } = await request.json<{ taskId: string | null; snapshot?: TaskStreamEvent }>();
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+
+    const subscriber: StreamSubscriber = { writer: writable.getWriter(), taskId };
+    this.subscribers.add(subscriber);
+
+    // Send the current state first, a task stream is done if the task already finished
+    if (snapshot) {
+      this.sendStatus(subscriber, snapshot);
+    }
+
+    // The snapshot was read before subscribing, an update published in between was missed
+    if (taskId !== null && this.subscribers.has(subscriber)) {
+      const task = await getTask(this.env.DB, taskId);
+      if (task && task.status !== subscriber.lastStatus && this.subscribers.has(subscriber)) {
+        this.sendStatus(subscriber, toStreamEvent(task, task.status, task.error, task.result));
+      }
+    }
+
+    if (await this.ctx.storage.getAlarm() === null) {
+      await this.ctx.storage.setAlarm(Date.now() + STREAM_PING_INTERVAL_MS);
+    }
+
+    return new Response(readable, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive'
+      }
+    });
+  }
+
+  async publish(event: TaskStreamEvent): Promise<void> {
+    for (const subscriber of this.subscribers) {
+      if (subscriber.taskId === null) {
+        this.send(subscriber, 'status', event);
+      } else if (subscriber.taskId === event.taskId) {
+        this.sendStatus(subscriber, event);
+      }
+    }
+  }
+
+  // Keep idle connections open through proxies
+  async alarm(): Promise<void> {
+    for (const subscriber of this.subscribers) {
+      this.write(subscriber, ': ping\n\n');
+    }
+
+    if (this.subscribers.size > 0) {
+      await this.ctx.storage.setAlarm(Date.now() + STREAM_PING_INTERVAL_MS);
+    }
+  }
+
+  // Send a task stream's status, the stream ends once its task reaches a terminal status
+  private sendStatus(subscriber: StreamSubscriber, event: TaskStreamEvent) {
+    subscriber.lastStatus = event.status;
+    this.send(subscriber, 'status', event);
+
+    if (TERMINAL_STATUSES.includes(event.status)) {
+      this.close(subscriber);
+    }
+  }
+
+  private send(subscriber: StreamSubscriber, event: string, data: any) {
+    this.write(subscriber, `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+
+  private write(subscriber: StreamSubscriber, chunk: string) {
+    // Writes reject once the client has disconnected
+    subscriber.writer.write(this.encoder.encode(chunk)).catch(() => {
+      this.subscribers.delete(subscriber);
+    });
+  }
 
-  return updateResult.meta.changes > 0;
+  private close(subscriber: StreamSubscriber) {
+    this.subscribers.delete(subscriber);
+    subscriber.writer.close().catch(() => {});
+  }
 }
 
+const app = new Hono<{ Bindings: Bindings; Variables: Variables }>();
 
-async function upsertVM(db: D1Database, vm: Partial<VM>): Promise<void> {
-  const now = new Date().toISOString();
-  
-  await db.prepare(`
-    INSERT INTO vms (
-      id, name, ip_address, status, subdomain, port, created_at, updated_at, metadata
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
-    ON CONFLICT(name) DO UPDATE SET
-      ip_address = excluded.ip_address,
-      status = excluded.status,
-      subdomain = excluded.subdomain,
-      port = excluded.port,
-      updated_at = excluded.updated_at,
-      metadata = excluded.metadata
-  `)
-  .bind(
-    vm.id || uuidv4(),
-    vm.name,
-    vm.ipAddress || null,
-    vm.status || 'unknown',
-    vm.subdomain || null,
-    vm.port || 8080,
-    vm.createdAt || now,
-    now,
-    vm.metadata ? JSON.stringify(vm.metadata) : null
-  )
-  .run();
+// Enable CORS
+app.use('*', cors({
+  origin: '*',
+  allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'Authorization', 'Idempotency-Key'],
+}));
+
+// API key helper functions
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
 }
 
-async function getVM(db: D1Database, vmName: string): Promise<VM | null> {
+function generateApiKey(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return 'vmk_' + [...bytes].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+async function findApiKeyTenant(db: D1Database, key: string): Promise<{ id: string; tenantId: string } | null> {
+  const keyHash = await sha256Hex(key);
   const result = await db.prepare(`
-    SELECT * FROM vms WHERE name = ?
-  `).bind(vmName).first();
+    SELECT id, tenant_id FROM api_keys WHERE key_hash = ? AND revoked_at IS NULL
+  `).bind(keyHash).first();
 
   if (!result) return null;
 
   return {
     id: result.id as string,
-    name: result.name as string,
-    ipAddress: result.ip_address as string,
-    status: result.status as string,
-    subdomain: result.subdomain as string,
-    port: result.port as number,
-    createdAt: result.created_at as string,
-    updatedAt: result.updated_at as string,
-    metadata: result.metadata ? JSON.parse(result.metadata as string) : undefined
+    tenantId: result.tenant_id as string
   };
 }
 
-async function deleteVM(db: D1Database, vmName: string): Promise<boolean> {
-  const result = await db.prepare(`
-    DELETE FROM vms WHERE name = ?
-  `).bind(vmName).run();
+// Resolve the bearer token to a tenant (or to the admin key)
+const authenticate = createMiddleware<{ Bindings: Bindings; Variables: Variables }>(async (c, next) => {
+  const header = c.req.header('Authorization') || '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
 
-  return result.meta.changes > 0;
-}
+  if (!match) {
+    return c.json({
+      success: false,
+      error: 'Missing API key. Use "Authorization: Bearer <key>"'
+    }, 401);
+  }
 
-// Health check endpoint
-app.get('/health', (c) => {
-  return c.json({
-    status: 'healthy',
-    timestamp: new Date().toISOString(),
-    service: 'vm-api-worker',
-    database: 'D1'
-  });
-});
+  const key = match[1].trim();
 
-// Database health check
-app.get('/health/db', async (c) => {
-  try {
-    const result = await c.env.DB.prepare('SELECT COUNT(*) as count FROM vm_tasks').first();
+  if (c.env.ADMIN_API_KEY && timingSafeEqual(key, c.env.ADMIN_API_KEY)) {
+    c.set('tenantId', null);
+    c.set('isAdmin', true);
+    return next();
+  }
+
+  const apiKey = await findApiKeyTenant(c.env.DB, key);
+  if (!apiKey) {
     return c.json({
-      status: 'healthy',
-      database: 'connected',
-      totalTasks: result?.count || 0,
-      timestamp: new Date().toISOString()
-    });
-  } catch (error) {
+      success: false,
+      error: 'Invalid or revoked API key'
+    }, 401);
+  }
+
+  c.set('tenantId', apiKey.tenantId);
+  c.set('isAdmin', false);
+
+  c.executionCtx.waitUntil(
+    c.env.DB.prepare('UPDATE api_keys SET last_used_at = ? WHERE id = ?')
+      .bind(new Date().toISOString(), apiKey.id)
+      .run()
+  );
+
+  return next();
+});
+
+const requireAdmin = createMiddleware<{ Bindings: Bindings; Variables: Variables }>(async (c, next) => {
+  if (!c.get('isAdmin')) {
     return c.json({
-      status: 'unhealthy',
-      database: 'error',
-      error: error instanceof Error ? error.message : String(error),
-      timestamp: new Date().toISOString()
-    }, 500);
+      success: false,
+      error: 'Admin API key required'
+    }, 403);
   }
+  return next();
 });
 
-// Create a new VM task (launch or delete)
-app.post('/vm/tasks', async (c) => {
-  try {
-    const body = await c.req.json();
-    const { type, payload } = body;
+// VM names become the subdomain label, so they must be valid lowercase DNS labels
+const VM_NAME_PATTERN = /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/;
 
-    // Validate required fields
-    if (!type || !payload || !payload.vmName) {
-      return c.json({
-        success: false,
-        error: 'Missing required fields: type, payload.vmName'
-      }, 400);
-    }
+// The consumer worker keeps vmName and targetServer in KV key metadata, which is limited to 1024 bytes
+const MAX_VM_NAME_BYTES = 128;
+const MAX_TARGET_SERVER_BYTES = 64;
+// Tasks carry their tenant into the same metadata
+const MAX_TENANT_ID_BYTES = 64;
 
-    // Validate task type
-    if (!['launch_vm', 'delete_vm'].includes(type)) {
-      return c.json({
-        success: false,
-        error: 'Invalid task type. Must be "launch_vm" or "delete_vm"'
-      }, 400);
-    }
+function byteLength(value: string): number {
+  return new TextEncoder().encode(value).length;
+}
 
-    const taskId = uuidv4();
-    const now = new Date().toISOString();
+// Must match the subdomain the local consumer routes in the tunnel config
+function getVMSubdomain(env: Bindings, vmName: string): string {
+  const sanitizedName = vmName.toLowerCase().replace(/[^a-z0-9-]/g, '-');
+  return `${sanitizedName}.${env.BASE_DOMAIN}`;
+}
 
-    const task: VMTask = {
-      id: taskId,
-      type,
-      payload: {
-        vmName: payload.vmName,
-        vmConfig: payload.vmConfig || {},
-        targetServer: payload.targetServer || 'default'
-      },
-      status: 'pending',
-      createdAt: now,
-      updatedAt: now
-    };
+// Parse a positive duration given in seconds or as "<n>s|m|h|d", returns null if invalid
+function parseDurationSeconds(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isInteger(value) && value > 0 ? value : null;
+  }
+  if (typeof value !== 'string') return null;
 
-    // Store task in D1 database
-    await createTask(c.env.DB, task);
-    
-    // Add task to processing queue
-    await c.env.VM_TASK_QUEUE.send({
-      taskId,
-      type,
-      payload: task.payload,
-      timestamp: now
-    });
+  const match = value.trim().match(/^(\d+)([smhd])$/);
+  if (!match || parseInt(match[1]) === 0) return null;
 
-    console.log(`VM task created: ${taskId} (${type}) for VM: ${payload.vmName}`);
+  const units: Record<string, number> = { s: 1, m: 60, h: 60 * 60, d: 24 * 60 * 60 };
+  return parseInt(match[1]) * units[match[2]];
+}
 
-    return c.json({
-      success: true,
-      taskId,
-      status: 'pending',
-      message: `VM ${type.replace('_', ' ')} task queued successfully`
-    });
+// Validate the type-specific payload fields, returns an error message or null
+function validateTaskPayload(type: TaskType, payload: any): string | null {
+  if (typeof payload.vmName !== 'string' || payload.vmName.trim() === '') {
+    return 'payload.vmName must be a non-empty string';
+  }
+
+  if (byteLength(payload.vmName) > MAX_VM_NAME_BYTES) {
+    return `payload.vmName must be at most ${MAX_VM_NAME_BYTES} bytes`;
+  }
+
+  if (payload.vmConfig !== undefined && (typeof payload.vmConfig !== 'object' || payload.vmConfig === null || Array.isArray(payload.vmConfig))) {
+    return 'payload.vmConfig must be an object';
+  }
+
+  if (payload.targetServer !== undefined && (typeof payload.targetServer !== 'string' || payload.targetServer.trim() === '')) {
+    return 'payload.targetServer must be a non-empty string';
+  }
+
+  if (payload.targetServer !== undefined && byteLength(payload.targetServer) > MAX_TARGET_SERVER_BYTES) {
+    return `payload.targetServer must be at most ${MAX_TARGET_SERVER_BYTES} bytes`;
+  }
+
+  switch (type) {
+    case 'launch_vm':
+      if (!VM_NAME_PATTERN.test(payload.vmName)) {
+        return 'payload.vmName must be a valid DNS label: 1-63 lowercase letters, digits or hyphens, not starting or ending with a hyphen';
+      }
+      if (payload.ttl !== undefined && payload.expiresAt !== undefined) {
+        return 'payload.ttl and payload.expiresAt cannot be combined';
+      }
+      if (payload.ttl !== undefined && parseDurationSeconds(payload.ttl) === null) {
+        return 'payload.ttl must be a number of seconds or a duration like "30m", "2h" or "7d"';
+      }
+      if (payload.expiresAt !== undefined && (typeof payload.expiresAt !== 'string' || !(Date.parse(payload.expiresAt) > Date.now()))) {
+        return 'payload.expiresAt must be an ISO 8601 timestamp in the future';
+      }
+      break;
+
+    case 'snapshot_vm':
+      if (typeof payload.snapshotId !== 'string' || payload.snapshotId.trim() === '') {
+        return 'payload.snapshotId is required for snapshot_vm';
+      }
+      break;
+
+    case 'run_command':
+      if (typeof payload.command !== 'string' || payload.command.trim() === '') {
+        return 'payload.command is required for run_command';
+      }
+      if (payload.blocking !== undefined && typeof payload.blocking !== 'boolean') {
+        return 'payload.blocking must be a boolean';
+      }
+      break;
+  }
+
+  return null;
+}
+
+function getRetryPolicy(env: Bindings, type: TaskType): RetryPolicy {
+  let overrides: Partial<Record<TaskType, Partial<RetryPolicy>>> = {};
+
+  if (env.RETRY_POLICIES) {
+    try {
+      overrides = JSON.parse(env.RETRY_POLICIES);
+    } catch (error) {
+      console.error('Invalid RETRY_POLICIES configuration, using defaults:', error);
+    }
+  }
+
+  return { ...DEFAULT_RETRY_POLICIES[type], ...overrides[type] };
+}
+
+// Exponential backoff: base * 2^(attempt - 1), capped at maxDelaySeconds
+function getRetryDelaySeconds(policy: RetryPolicy, attempts: number): number {
+  const delay = policy.baseDelaySeconds * Math.pow(2, Math.max(attempts - 1, 0));
+  return Math.min(delay, policy.maxDelaySeconds);
+}
+
+// Parse one field: *, n, a-b, lists (a,b) and steps (*/n, a-b/n)
+function parseCronField(field: string, min: number, max: number): Set<number> | null {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = part.match(/^(?:(\*)|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) return null;
+
+    const start = match[1] ? min : parseInt(match[2]);
+    const end = match[1] ? max : match[3] !== undefined ? parseInt(match[3]) : match[4] ? max : start;
+    const step = match[4] ? parseInt(match[4]) : 1;
+
+    if (start < min || end > max || start > end || step < 1) return null;
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+// Parse a 5 field cron expression (minute hour day-of-month month day-of-week), returns null if invalid
+function parseCronExpression(expression: string): CronExpression | null {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) return null;
+
+  const minutes = parseCronField(fields[0], 0, 59);
+  const hours = parseCronField(fields[1], 0, 23);
+  const daysOfMonth = parseCronField(fields[2], 1, 31);
+  const months = parseCronField(fields[3], 1, 12);
+  const daysOfWeek = parseCronField(fields[4], 0, 7);
+
+  if (!minutes || !hours || !daysOfMonth || !months || !daysOfWeek) return null;
+
+  // 7 is Sunday as well
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2].startsWith('*'),
+    anyDayOfWeek: fields[4].startsWith('*')
+  };
+}
+
+function matchesCronDay(cron: CronExpression, date: Date): boolean {
+  const dayOfMonth = cron.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = cron.daysOfWeek.has(date.getUTCDay());
+
+  if (!cron.anyDayOfMonth && !cron.anyDayOfWeek) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+// First minute after the given time matching the expression (UTC), null if there is none within 5 years
+function getNextCronRun(cron: CronExpression, after: Date): Date | null {
+  const date = new Date(after.getTime());
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+  const limit = after.getTime() + 5 * 366 * 24 * 60 * 60 * 1000;
+
+  // Skip whole months, days and hours that can't match instead of walking every minute
+  while (date.getTime() <= limit) {
+    if (!cron.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!matchesCronDay(cron, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!cron.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+    } else if (!cron.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+    } else {
+      return date;
+    }
+  }
+
+  return null;
+}
+
+// Type-specific payload of a task, from a validated request (or schedule template) payload
+function toTaskPayload(type: TaskType, payload: any, targetServer: string): VMTask['payload'] {
+  return {
+    vmName: payload.vmName,
+    vmConfig: payload.vmConfig || {},
+    targetServer,
+    ...(type === 'snapshot_vm' && { snapshotId: payload.snapshotId }),
+    ...(type === 'run_command' && { command: payload.command, blocking: payload.blocking ?? true }),
+    ...(type === 'launch_vm' && payload.ttl !== undefined && { ttl: payload.ttl }),
+    ...(type === 'launch_vm' && payload.expiresAt !== undefined && { expiresAt: new Date(payload.expiresAt).toISOString() })
+  };
+}
+
+async function enqueueTask(env: Bindings, task: VMTask, delaySeconds?: number): Promise<void> {
+  // The consumer worker ages priorities from the timestamp, so send when the task becomes
+  // runnable rather than when it was created (scheduled tasks may be created hours earlier)
+  const dispatchedAt = new Date(Date.now() + (delaySeconds || 0) * 1000).toISOString();
+
+  await env.VM_TASK_QUEUE.send({
+    taskId: task.id,
+    type: task.type,
+    payload: task.payload,
+    priority: task.priority,
+    tenantId: task.tenantId || null,
+    sequence: task.vmSequence,
+    timestamp: dispatchedAt
+  }, delaySeconds ? { delaySeconds } : undefined);
+
+  // The message is sent, so only throw when sending failed (callers roll back on errors)
+  try {
+    await recordTaskEvent(env.DB, {
+      taskId: task.id,
+      type: 'enqueued',
+      details: delaySeconds ? { delaySeconds } : undefined
+    });
+  } catch (error) {
+    console.error(`Error recording enqueue of task ${task.id}:`, error);
+  }
+}
+
+// Cron trigger: move scheduled tasks whose runAt has passed onto the queue
+async function enqueueDueTasks(env: Bindings): Promise<void> {
+  const now = new Date().toISOString();
+  const due = await env.DB.prepare(`
+    SELECT id FROM vm_tasks
+    WHERE status = 'scheduled' AND run_at <= ?
+    ORDER BY run_at
+    LIMIT 100
+  `).bind(now).all();
+
+  for (const row of due.results) {
+    try {
+      const task = await getTask(env.DB, row.id as string);
+      if (!task) continue;
+
+      // Skip tasks cancelled or rescheduled meanwhile
+      if (!await updateTaskStatus(env.DB, task.id, 'scheduled', 'pending')) continue;
+
+      try {
+        await enqueueTask(env, task);
+      } catch (error) {
+        // Put it back so the next tick tries again
+        await updateTaskStatus(env.DB, task.id, 'pending', 'scheduled');
+        throw error;
+      }
+      await publishTaskUpdate(env, task, 'pending');
+
+      console.log(`Scheduled task ${task.id} due at ${task.runAt} enqueued`);
+    } catch (error) {
+      console.error(`Error enqueueing scheduled task ${row.id}:`, error);
+    }
+  }
+}
+
+function getEventHub(env: Bindings, hubName: string) {
+  return env.TASK_EVENTS.get(env.TASK_EVENTS.idFromName(hubName));
+}
+
+function toStreamEvent(task: VMTask, status: TaskStatus, error?: string, result?: any): TaskStreamEvent {
+  return {
+    taskId: task.id,
+    type: task.type,
+    vmName: task.payload.vmName,
+    status,
+    error,
+    result,
+    attempts: task.attempts,
+    timestamp: new Date().toISOString()
+  };
+}
+
+// Push a task update to the streams of its tenant and to the all-tenants hub
+async function publishTaskUpdate(env: Bindings, task: VMTask, status: TaskStatus, error?: string, result?: any): Promise<void> {
+  const event = toStreamEvent(task, status, error, result);
+  const hubs = task.tenantId ? [task.tenantId, ALL_TENANTS_HUB] : [ALL_TENANTS_HUB];
+
+  try {
+    await Promise.all(hubs.map(hubName => getEventHub(env, hubName).publish(event)));
+  } catch (error) {
+    console.error(`Error publishing update for task ${task.id}:`, error);
+  }
+}
+
+function generateWebhookSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return 'whsec_' + [...bytes].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function hmacSha256Hex(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(message));
+  return [...new Uint8Array(signature)].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function isValidWebhookUrl(value: any): boolean {
+  if (typeof value !== 'string') return false;
+  try {
+    return new URL(value).protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+// Record a delivery for the task callback URL and the tenant webhook, and queue them
+async function scheduleWebhookDeliveries(env: Bindings, task: VMTask, status: TaskStatus, error?: string, result?: any): Promise<void> {
+  if (!task.tenantId) return;
+
+  try {
+    const settings = await getTenantSettings(env.DB, task.tenantId);
+    const urls = [...new Set([task.callbackUrl, settings?.webhookUrl].filter((url): url is string => !!url))];
+
+    if (urls.length === 0 || !settings) return;
+
+    const now = new Date().toISOString();
+    const eventType = `task.${status}`;
+
+    for (const url of urls) {
+      const deliveryId = uuidv4();
+      const payload = {
+        id: deliveryId,
+        event: eventType,
+        createdAt: now,
+        data: {
+          taskId: task.id,
+          type: task.type,
+          vmName: task.payload.vmName,
+          status,
+          error,
+          result,
+          demoUrl: result?.demoUrl
+        }
+      };
+
+      await env.DB.prepare(`
+        INSERT INTO webhook_deliveries (
+          id, task_id, tenant_id, url, event_type, payload, status, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, 'pending', ?, ?)
+      `)
+      .bind(deliveryId, task.id, task.tenantId, url, eventType, JSON.stringify(payload), now, now)
+      .run();
+
+      await env.WEBHOOK_QUEUE.send({ deliveryId });
+    }
+
+    console.log(`Queued ${urls.length} webhook delivery(ies) for task ${task.id} (${eventType})`);
+
+  } catch (error) {
+    console.error(`Error scheduling webhooks for task ${task.id}:`, error);
+  }
+}
+
+// POST a delivery to its URL, returns whether it should be retried
+async function deliverWebhook(env: Bindings, deliveryId: string): Promise<{ retry: boolean; attempts: number }> {
+  const delivery = await env.DB.prepare(`
+    SELECT * FROM webhook_deliveries WHERE id = ?
+  `).bind(deliveryId).first();
+
+  if (!delivery || delivery.status !== 'pending') {
+    return { retry: false, attempts: 0 };
+  }
+
+  const settings = await getTenantSettings(env.DB, delivery.tenant_id as string);
+  if (!settings) {
+    throw new Error(`No webhook secret for tenant ${delivery.tenant_id}`);
+  }
+
+  const attempts = (delivery.attempts as number) + 1;
+  const body = delivery.payload as string;
+  const timestamp = Math.floor(Date.now() / 1000);
+  const signature = await hmacSha256Hex(settings.webhookSecret, `${timestamp}.${body}`);
+
+  let statusCode: number | null = null;
+  let deliveryError: string | null = null;
+
+  try {
+    const response = await fetch(delivery.url as string, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'vm-api-worker-webhooks',
+        'X-Webhook-Id': deliveryId,
+        'X-Webhook-Event': delivery.event_type as string,
+        'X-Webhook-Signature': `t=${timestamp},v1=${signature}`
+      },
+      body,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+    });
+    statusCode = response.status;
+    if (!response.ok) {
+      deliveryError = `Endpoint responded with ${response.status}`;
+    }
+  } catch (error) {
+    deliveryError = error instanceof Error ? error.message : String(error);
+  }
+
+  const now = new Date().toISOString();
+  const delivered = deliveryError === null;
+  const status = delivered ? 'delivered' : attempts >= MAX_WEBHOOK_ATTEMPTS ? 'failed' : 'pending';
+
+  await env.DB.prepare(`
+    UPDATE webhook_deliveries
+    SET status = ?, attempts = ?, last_status_code = ?, last_error = ?, last_attempt_at = ?,
+        delivered_at = ?, updated_at = ?
+    WHERE id = ?
+  `)
+  .bind(status, attempts, statusCode, deliveryError, now, delivered ? now : null, now, deliveryId)
+  .run();
+
+  return { retry: status === 'pending', attempts };
+}
+
+// Webhook queue handler: deliver and retry with exponential backoff
+async function handleWebhookMessage(batch: MessageBatch<WebhookQueueMessage>, env: Bindings) {
+  for (const message of batch.messages) {
+    const { deliveryId } = message.body;
+
+    try {
+      const { retry, attempts } = await deliverWebhook(env, deliveryId);
+
+      if (retry) {
+        const delaySeconds = WEBHOOK_BASE_DELAY_SECONDS * Math.pow(2, attempts - 1);
+        console.log(`Webhook delivery ${deliveryId} failed (attempt ${attempts}/${MAX_WEBHOOK_ATTEMPTS}), retrying in ${delaySeconds}s`);
+        message.retry({ delaySeconds });
+      } else {
+        message.ack();
+      }
+
+    } catch (error) {
+      console.error(`Error delivering webhook ${deliveryId}:`, error);
+      message.retry({
+        delaySeconds: WEBHOOK_BASE_DELAY_SECONDS
+      });
+    }
+  }
+}
+
+// JSON with sorted object keys, so equivalent request bodies hash the same
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+// Repeating a request with the same Idempotency-Key within this window returns the original task
+const IDEMPOTENCY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Database helper functions
+
+// When the task carries an idempotency key, the insert is skipped (returns false)
+// if a task with the same key was already created by the tenant within the window
+async function createTask(db: D1Database, task: VMTask, requestHash?: string): Promise<boolean> {
+  const windowStart = new Date(Date.now() - IDEMPOTENCY_WINDOW_MS).toISOString();
+
+  const insertResult = await db.prepare(`
+    INSERT INTO vm_tasks (
+      id, type, vm_name, vm_config, payload, target_server, status, 
+      created_at, updated_at, tenant_id, idempotency_key, request_hash, callback_url, priority, run_at, schedule_id,
+      vm_sequence
+    )
+    SELECT ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?,
+      (SELECT COALESCE(MAX(vm_sequence), 0) + 1 FROM vm_tasks WHERE vm_name = ?)
+    WHERE ? IS NULL OR NOT EXISTS (
+      SELECT 1 FROM vm_tasks
+      WHERE idempotency_key = ? AND COALESCE(tenant_id, '') = ? AND created_at >= ?
+    )
+    RETURNING vm_sequence
+  `)
+  .bind(
+    task.id,
+    task.type,
+    task.payload.vmName,
+    JSON.stringify(task.payload.vmConfig || {}),
+    JSON.stringify({
+      snapshotId: task.payload.snapshotId,
+      command: task.payload.command,
+      blocking: task.payload.blocking,
+      ttl: task.payload.ttl,
+      expiresAt: task.payload.expiresAt
+    }),
+    task.payload.targetServer || 'default',
+    task.status,
+    task.createdAt,
+    task.updatedAt,
+    task.tenantId || null,
+    task.idempotencyKey || null,
+    requestHash || null,
+    task.callbackUrl || null,
+    task.priority,
+    task.runAt || null,
+    task.scheduleId || null,
+    task.payload.vmName,
+    task.idempotencyKey || null,
+    task.idempotencyKey || null,
+    task.tenantId || '',
+    windowStart
+  )
+  .first();
+
+  if (!insertResult) return false;
+
+  task.vmSequence = insertResult.vm_sequence as number;
+  return true;
+}
+
+async function findTaskByIdempotencyKey(
+  db: D1Database,
+  idempotencyKey: string,
+  tenantId?: string | null
+): Promise<{ id: string; status: TaskStatus; requestHash: string } | null> {
+  const windowStart = new Date(Date.now() - IDEMPOTENCY_WINDOW_MS).toISOString();
+
+  const result = await db.prepare(`
+    SELECT id, status, request_hash FROM vm_tasks
+    WHERE idempotency_key = ? AND COALESCE(tenant_id, '') = ? AND created_at >= ?
+    ORDER BY created_at DESC
+    LIMIT 1
+  `).bind(idempotencyKey, tenantId || '', windowStart).first();
+
+  if (!result) return null;
+
+  return {
+    id: result.id as string,
+    status: result.status as TaskStatus,
+    requestHash: result.request_hash as string
+  };
+}
+
+// Pass a tenantId to only find the task if it belongs to that tenant
+async function getTask(db: D1Database, taskId: string, tenantId?: string | null): Promise<VMTask | null> {
+  const result = tenantId
+    ? await db.prepare(`
+        SELECT * FROM vm_tasks WHERE id = ? AND tenant_id = ?
+      `).bind(taskId, tenantId).first()
+    : await db.prepare(`
+        SELECT * FROM vm_tasks WHERE id = ?
+      `).bind(taskId).first();
+
+  if (!result) return null;
+
+  return {
+    id: result.id as string,
+    type: result.type as TaskType,
+    payload: {
+      ...(result.payload ? JSON.parse(result.payload as string) : {}),
+      vmName: result.vm_name as string,
+      vmConfig: result.vm_config ? JSON.parse(result.vm_config as string) : {},
+      targetServer: result.target_server as string
+    },
+    status: result.status as TaskStatus,
+    priority: (result.priority as TaskPriority) || 'normal',
+    tenantId: result.tenant_id as string | null,
+    attempts: result.attempts as number,
+    lastAttemptAt: result.last_attempt_at as string,
+    cancelRequestedAt: result.cancel_requested_at as string,
+    placementError: result.placement_error as string,
+    runAt: result.run_at as string,
+    scheduleId: result.schedule_id as string,
+    vmSequence: result.vm_sequence as number,
+    callbackUrl: result.callback_url as string,
+    createdAt: result.created_at as string,
+    updatedAt: result.updated_at as string,
+    completedAt: result.completed_at as string,
+    error: result.error_message as string,
+    result: result.result ? JSON.parse(result.result as string) : undefined
+  };
+}
+
+// Only applied while the task is still in fromStatus, returns false if another
+// writer changed the status in the meantime
+async function updateTaskStatus(
+  db: D1Database, 
+  taskId: string, 
+  fromStatus: TaskStatus,
+  status: TaskStatus, 
+  error?: string, 
+  result?: any,
+  consumerId?: string
+): Promise<boolean> {
+  const now = new Date().toISOString();
+  const completedAt = TERMINAL_STATUSES.includes(status) ? now : null;
+
+  const updateResult = await db.prepare(`
+    UPDATE vm_tasks 
+    SET status = ?, updated_at = ?, completed_at = ?, error_message = ?, result = ?
+    WHERE id = ? AND status = ?
+  `)
+  .bind(
+    status,
+    now,
+    completedAt,
+    error || null,
+    result ? JSON.stringify(result) : null,
+    taskId,
+    fromStatus
+  )
+  .run();
+
+  if (updateResult.meta.changes === 0) {
+    return false;
+  }
+
+  await recordTaskEvent(db, {
+    taskId,
+    type: 'status_changed',
+    fromStatus,
+    toStatus: status,
+    consumerId,
+    message: error
+  });
+
+  return true;
+}
+
+async function requestTaskCancellation(db: D1Database, taskId: string): Promise<void> {
+  const now = new Date().toISOString();
+  await db.prepare(`
+    UPDATE vm_tasks SET cancel_requested_at = ?, updated_at = ? WHERE id = ?
+  `).bind(now, now, taskId).run();
+
+  await recordTaskEvent(db, {
+    taskId,
+    type: 'cancel_requested',
+    message: 'Cancellation requested by user'
+  });
+}
+
+async function getTenantSettings(db: D1Database, tenantId: string): Promise<TenantSettings | null> {
+  const result = await db.prepare(`
+    SELECT * FROM tenant_settings WHERE tenant_id = ?
+  `).bind(tenantId).first();
+
+  if (!result) return null;
+
+  return {
+    tenantId: result.tenant_id as string,
+    webhookUrl: result.webhook_url as string,
+    webhookSecret: result.webhook_secret as string,
+    createdAt: result.created_at as string,
+    updatedAt: result.updated_at as string
+  };
+}
+
+// Create the tenant settings (with a new webhook secret) if they don't exist yet
+async function ensureTenantSettings(db: D1Database, tenantId: string): Promise<TenantSettings> {
+  const now = new Date().toISOString();
+
+  await db.prepare(`
+    INSERT INTO tenant_settings (tenant_id, webhook_url, webhook_secret, created_at, updated_at)
+    VALUES (?, NULL, ?, ?, ?)
+    ON CONFLICT(tenant_id) DO NOTHING
+  `).bind(tenantId, generateWebhookSecret(), now, now).run();
+
+  return (await getTenantSettings(db, tenantId))!;
+}
+
+async function recordTaskEvent(db: D1Database, event: TaskEvent): Promise<void> {
+  await db.prepare(`
+    INSERT INTO vm_task_events (
+      task_id, event_type, from_status, to_status, consumer_id, message, details, created_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `)
+  .bind(
+    event.taskId,
+    event.type,
+    event.fromStatus || null,
+    event.toStatus || null,
+    event.consumerId || null,
+    event.message || null,
+    event.details ? JSON.stringify(event.details) : null,
+    new Date().toISOString()
+  )
+  .run();
+}
+
+async function getTaskEvents(db: D1Database, taskId: string) {
+  const result = await db.prepare(`
+    SELECT * FROM vm_task_events WHERE task_id = ? ORDER BY id ASC
+  `).bind(taskId).all();
+
+  return result.results.map(row => ({
+    id: row.id as number,
+    type: row.event_type as TaskEventType,
+    fromStatus: row.from_status as TaskStatus | null,
+    toStatus: row.to_status as TaskStatus | null,
+    consumerId: row.consumer_id as string | null,
+    message: row.message as string | null,
+    details: row.details ? JSON.parse(row.details as string) : undefined,
+    createdAt: row.created_at as string
+  }));
+}
+
+// Remove the task from the consumer worker buffer and stop it from being buffered later
+async function cancelBufferedTask(env: Bindings, task: VMTask): Promise<void> {
+  const response = await env.CONSUMER_WORKER.fetch(`https://vm-consumer-worker/tasks/${task.id}/cancel`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ vmName: task.payload.vmName })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Consumer worker responded with ${response.status}`);
+  }
+}
+
+async function recordTaskAttempt(db: D1Database, taskId: string): Promise<void> {
+  await db.prepare(`
+    UPDATE vm_tasks SET attempts = attempts + 1, last_attempt_at = ? WHERE id = ?
+  `).bind(new Date().toISOString(), taskId).run();
+}
+
+
+async function upsertVM(db: D1Database, vm: Partial<VM>): Promise<void> {
+  const now = new Date().toISOString();
+  
+  await db.prepare(`
+    INSERT INTO vms (
+      id, name, ip_address, status, subdomain, port, created_at, updated_at, metadata, tenant_id, server, expires_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(name) DO UPDATE SET
+      ip_address = excluded.ip_address,
+      status = excluded.status,
+      subdomain = excluded.subdomain,
+      port = excluded.port,
+      updated_at = excluded.updated_at,
+      metadata = excluded.metadata,
+      server = COALESCE(excluded.server, vms.server),
+      expires_at = excluded.expires_at,
+      expiry_task_id = NULL,
+      expiry_attempts = 0
+  `)
+  .bind(
+    vm.id || uuidv4(),
+    vm.name,
+    vm.ipAddress || null,
+    vm.status || 'unknown',
+    vm.subdomain || null,
+    vm.port || 8080,
+    vm.createdAt || now,
+    now,
+    vm.metadata ? JSON.stringify(vm.metadata) : null,
+    vm.tenantId || null,
+    vm.server || null,
+    vm.expiresAt || null
+  )
+  .run();
+}
+
+// When a VM launched by the task expires, counting a ttl from now
+function getVMExpiry(task: VMTask): string | null {
+  if (task.payload.expiresAt) return task.payload.expiresAt;
+
+  const ttlSeconds = parseDurationSeconds(task.payload.ttl);
+  return ttlSeconds ? new Date(Date.now() + ttlSeconds * 1000).toISOString() : null;
+}
+
+// Reserve the VM name and its subdomain for a launch, returns false if either is already in use
+async function reserveVM(db: D1Database, vmName: string, subdomain: string, tenantId?: string | null): Promise<boolean> {
+  const now = new Date().toISOString();
+
+  const result = await db.prepare(`
+    INSERT INTO vms (id, name, status, subdomain, port, created_at, updated_at, tenant_id)
+    VALUES (?, ?, 'reserved', ?, 8080, ?, ?, ?)
+    ON CONFLICT DO NOTHING
+  `).bind(uuidv4(), vmName, subdomain, now, now, tenantId || null).run();
+
+  return result.meta.changes > 0;
+}
+
+// Free the reservation of a launch that did not complete
+async function releaseVMReservation(db: D1Database, vmName: string): Promise<void> {
+  await db.prepare(`
+    DELETE FROM vms WHERE name = ? AND status = 'reserved'
+  `).bind(vmName).run();
+}
+
+async function findVMBySubdomain(db: D1Database, subdomain: string): Promise<{ name: string } | null> {
+  const result = await db.prepare(`
+    SELECT name FROM vms WHERE subdomain = ?
+  `).bind(subdomain).first();
+
+  return result ? { name: result.name as string } : null;
+}
+
+async function getVM(db: D1Database, vmName: string, tenantId?: string | null): Promise<VM | null> {
+  const result = tenantId
+    ? await db.prepare(`
+        SELECT * FROM vms WHERE name = ? AND tenant_id = ?
+      `).bind(vmName, tenantId).first()
+    : await db.prepare(`
+        SELECT * FROM vms WHERE name = ?
+      `).bind(vmName).first();
+
+  if (!result) return null;
+
+  return {
+    id: result.id as string,
+    name: result.name as string,
+    ipAddress: result.ip_address as string,
+    status: result.status as string,
+    subdomain: result.subdomain as string,
+    port: result.port as number,
+    createdAt: result.created_at as string,
+    updatedAt: result.updated_at as string,
+    metadata: result.metadata ? JSON.parse(result.metadata as string) : undefined,
+    tenantId: result.tenant_id as string | null,
+    server: result.server as string | null,
+    expiresAt: result.expires_at as string | null,
+    expiryTaskId: result.expiry_task_id as string | null
+  };
+}
+
+async function deleteVM(db: D1Database, vmName: string, tenantId?: string | null): Promise<boolean> {
+  const result = tenantId
+    ? await db.prepare(`
+        DELETE FROM vms WHERE name = ? AND tenant_id = ?
+      `).bind(vmName, tenantId).run()
+    : await db.prepare(`
+        DELETE FROM vms WHERE name = ?
+      `).bind(vmName).run();
+
+  return result.meta.changes > 0;
+}
+
+async function createApiKey(db: D1Database, tenantId: string, name?: string): Promise<ApiKey & { key: string }> {
+  const key = generateApiKey();
+  const apiKey = {
+    id: uuidv4(),
+    tenantId,
+    name,
+    keyPrefix: key.slice(0, 12),
+    createdAt: new Date().toISOString()
+  };
+
+  await db.prepare(`
+    INSERT INTO api_keys (id, tenant_id, name, key_hash, key_prefix, created_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `)
+  .bind(
+    apiKey.id,
+    apiKey.tenantId,
+    apiKey.name || null,
+    await sha256Hex(key),
+    apiKey.keyPrefix,
+    apiKey.createdAt
+  )
+  .run();
+
+  return { ...apiKey, key };
+}
+
+function toSchedule(row: Record<string, unknown>): VMSchedule {
+  return {
+    id: row.id as string,
+    tenantId: row.tenant_id as string | null,
+    name: row.name as string | undefined,
+    cronExpression: row.cron_expression as string,
+    type: row.task_type as TaskType,
+    vmName: row.vm_name as string,
+    payload: JSON.parse(row.payload as string),
+    priority: row.priority as TaskPriority,
+    status: row.status as ScheduleStatus,
+    nextRunAt: row.next_run_at as string | undefined,
+    lastRunAt: row.last_run_at as string | undefined,
+    lastTaskId: row.last_task_id as string | undefined,
+    lastError: row.last_error as string | undefined,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string
+  };
+}
+
+// Pass a tenantId to only find the schedule if it belongs to that tenant
+async function getSchedule(db: D1Database, scheduleId: string, tenantId?: string | null): Promise<VMSchedule | null> {
+  const result = tenantId
+    ? await db.prepare(`
+        SELECT * FROM vm_schedules WHERE id = ? AND tenant_id = ?
+      `).bind(scheduleId, tenantId).first()
+    : await db.prepare(`
+        SELECT * FROM vm_schedules WHERE id = ?
+      `).bind(scheduleId).first();
+
+  return result ? toSchedule(result) : null;
+}
+
+// Schedule as returned by the API, with the status of the task created by its last run
+async function toScheduleResponse(db: D1Database, schedule: VMSchedule) {
+  const lastTask = schedule.lastTaskId ? await getTask(db, schedule.lastTaskId) : null;
+
+  return {
+    ...schedule,
+    lastResult: lastTask
+      ? { taskId: lastTask.id, status: lastTask.status, error: lastTask.error || null }
+      : schedule.lastError ? { taskId: null, status: 'not_created', error: schedule.lastError } : null
+  };
+}
+
+// Create and enqueue the task for one tick of a schedule, returns the task ID.
+// Throws when no task could be created; a created task that could not be enqueued is failed.
+async function runSchedule(env: Bindings, schedule: VMSchedule): Promise<string> {
+  let targetServer: string = schedule.payload.targetServer || 'default';
+  if (!schedule.payload.targetServer && schedule.type !== 'launch_vm') {
+    const vm = await getVM(env.DB, schedule.vmName, schedule.tenantId);
+    if (vm?.server) {
+      targetServer = vm.server;
+    }
+  }
+
+  const now = new Date().toISOString();
+  const task: VMTask = {
+    id: uuidv4(),
+    type: schedule.type,
+    payload: toTaskPayload(schedule.type, { ...schedule.payload, vmName: schedule.vmName }, targetServer),
+    status: 'pending',
+    priority: schedule.priority,
+    tenantId: schedule.tenantId,
+    scheduleId: schedule.id,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  await createTask(env.DB, task);
+
+  if (task.type === 'launch_vm' &&
+      !await reserveVM(env.DB, task.payload.vmName, getVMSubdomain(env, task.payload.vmName), task.tenantId)) {
+    await env.DB.prepare('DELETE FROM vm_tasks WHERE id = ?').bind(task.id).run();
+    throw new Error(`VM name ${task.payload.vmName} is already in use`);
+  }
+
+  try {
+    await recordTaskEvent(env.DB, {
+      taskId: task.id,
+      type: 'created',
+      toStatus: 'pending',
+      details: { scheduleId: schedule.id }
+    });
+
+    await enqueueTask(env, task);
+  } catch (error) {
+    // The task exists but was never queued: fail it, so it becomes the run's result
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Error enqueueing task ${task.id} of schedule ${schedule.id}:`, error);
+
+    await updateTaskStatus(env.DB, task.id, 'pending', 'failed', `Could not be enqueued: ${message}`);
+    if (task.type === 'launch_vm') {
+      await releaseVMReservation(env.DB, task.payload.vmName);
+    }
+    return task.id;
+  }
+
+  await publishTaskUpdate(env, task, 'pending');
+
+  return task.id;
+}
+
+// Validate a schedule's cron expression and task template, returns an error message or null
+function validateSchedule(schedule: Pick<VMSchedule, 'cronExpression' | 'type' | 'vmName' | 'payload' | 'priority'>): string | null {
+  if (typeof schedule.cronExpression !== 'string') {
+    return 'cronExpression is required';
+  }
+
+  const cron = parseCronExpression(schedule.cronExpression);
+  if (!cron) {
+    return 'cronExpression must have 5 fields (minute hour day-of-month month day-of-week) using *, numbers, ranges, lists and steps';
+  }
+  if (!getNextCronRun(cron, new Date())) {
+    return 'cronExpression never matches';
+  }
+
+  if (!TASK_TYPES.includes(schedule.type)) {
+    return `Invalid task type. Must be one of: ${TASK_TYPES.join(', ')}`;
+  }
+
+  if (!TASK_PRIORITIES.includes(schedule.priority)) {
+    return `Invalid priority. Must be one of: ${TASK_PRIORITIES.join(', ')}`;
+  }
+
+  if (typeof schedule.payload !== 'object' || schedule.payload === null || Array.isArray(schedule.payload)) {
+    return 'payload must be an object';
+  }
+
+  return validateTaskPayload(schedule.type, { ...schedule.payload, vmName: schedule.vmName });
+}
+
+// Cron trigger: create the tasks of active schedules that are due
+async function runDueSchedules(env: Bindings): Promise<void> {
+  const now = new Date();
+  const due = await env.DB.prepare(`
+    SELECT * FROM vm_schedules
+    WHERE status = 'active' AND next_run_at <= ?
+    ORDER BY next_run_at
+    LIMIT 50
+  `).bind(now.toISOString()).all();
+
+  for (const row of due.results) {
+    const schedule = toSchedule(row);
+    const cron = parseCronExpression(schedule.cronExpression);
+    const nextRunAt = cron ? getNextCronRun(cron, now)?.toISOString() || null : null;
+
+    // Move next_run_at first, so an overlapping invocation doesn't run the same tick twice.
+    // Ticks missed while nothing ran are not caught up.
+    const claimed = await env.DB.prepare(`
+      UPDATE vm_schedules SET next_run_at = ?, last_run_at = ?, updated_at = ?
+      WHERE id = ? AND next_run_at = ?
+    `).bind(nextRunAt, now.toISOString(), now.toISOString(), schedule.id, schedule.nextRunAt).run();
+
+    if (claimed.meta.changes === 0) continue;
+
+    try {
+      const taskId = await runSchedule(env, schedule);
+
+      await env.DB.prepare(`
+        UPDATE vm_schedules SET last_task_id = ?, last_error = NULL WHERE id = ?
+      `).bind(taskId, schedule.id).run();
+
+      console.log(`Schedule ${schedule.id} created task ${taskId} (${schedule.type}) for VM: ${schedule.vmName}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      await env.DB.prepare(`
+        UPDATE vm_schedules SET last_task_id = NULL, last_error = ? WHERE id = ?
+      `).bind(message, schedule.id).run();
+
+      console.error(`Error running schedule ${schedule.id}:`, error);
+    }
+  }
+}
+
+// Delete tasks issued for an expired VM before the sweep gives up on it
+const MAX_EXPIRY_ATTEMPTS = 3;
+
+// Cron trigger: issue delete_vm tasks for VMs whose expiresAt has passed.
+// A VM is picked up again if its previous expiry task failed or could not be created,
+// up to MAX_EXPIRY_ATTEMPTS times. VMs reconciliation marked missing are skipped.
+async function expireVMs(env: Bindings): Promise<void> {
+  const now = new Date().toISOString();
+  const expired = await env.DB.prepare(`
+    SELECT vms.name, vms.tenant_id, vms.server, vms.expires_at, vms.expiry_task_id FROM vms
+    LEFT JOIN vm_tasks ON vm_tasks.id = vms.expiry_task_id
+    WHERE vms.expires_at <= ? AND vms.status NOT IN ('reserved', 'missing')
+      AND vms.expiry_attempts < ?
+      AND (vms.expiry_task_id IS NULL OR vm_tasks.id IS NULL
+        OR vm_tasks.status IN ('failed', 'dead_lettered', 'cancelled'))
+    ORDER BY vms.expires_at
+    LIMIT 50
+  `).bind(now, MAX_EXPIRY_ATTEMPTS).all();
+
+  for (const row of expired.results) {
+    const task: VMTask = {
+      id: uuidv4(),
+      type: 'delete_vm',
+      payload: toTaskPayload('delete_vm', { vmName: row.name as string }, (row.server as string | null) || 'default'),
+      status: 'pending',
+      priority: 'normal',
+      tenantId: row.tenant_id as string | null,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    // Claim the VM first, so an overlapping invocation doesn't delete it twice
+    const claimed = await env.DB.prepare(`
+      UPDATE vms SET expiry_task_id = ?, expiry_attempts = expiry_attempts + 1, updated_at = ?
+      WHERE name = ? AND expiry_task_id IS ?
+    `).bind(task.id, now, row.name, row.expiry_task_id ?? null).run();
+
+    if (claimed.meta.changes === 0) continue;
+
+    try {
+      await createTask(env.DB, task);
+
+      await recordTaskEvent(env.DB, {
+        taskId: task.id,
+        type: 'created',
+        toStatus: 'pending',
+        details: { expiresAt: row.expires_at }
+      });
+
+      await enqueueTask(env, task);
+      await publishTaskUpdate(env, task, 'pending');
+
+      console.log(`VM ${row.name} expired at ${row.expires_at}, created delete task ${task.id}`);
+    } catch (error) {
+      console.error(`Error expiring VM ${row.name}:`, error);
+
+      // Release the claim so the next sweep tries again, and fail the task if it was stored but not queued
+      try {
+        const message = error instanceof Error ? error.message : String(error);
+        await updateTaskStatus(env.DB, task.id, 'pending', 'failed', message);
+        await env.DB.prepare(`
+          UPDATE vms SET expiry_task_id = NULL WHERE name = ? AND expiry_task_id = ?
+        `).bind(row.name, task.id).run();
+      } catch (releaseError) {
+        console.error(`Error releasing expiry of VM ${row.name}:`, releaseError);
+      }
+    }
+  }
+}
+
+// Compare a host's VMs and tunnel ingress against the vms table.
+// Reserved rows are launches in progress and are not compared.
+async function buildDriftReport(
+  env: Bindings,
+  server: string,
+  hostVMs: { name: string; status: string }[],
+  ingressHostnames: string[]
+): Promise<DriftReport> {
+  const serverFilter = server === 'default' ? "(server IS NULL OR server = 'default')" : 'server = ?';
+  const recorded = await env.DB.prepare(`
+    SELECT name, status FROM vms WHERE ${serverFilter} AND status != 'reserved'
+  `).bind(...(server === 'default' ? [] : [server])).all();
+
+  const hostStatuses = new Map(hostVMs.map(vm => [vm.name, vm.status]));
+  const report: DriftReport = { server, missing: [], untracked: [], statusMismatches: [], orphanedIngress: [] };
+
+  for (const row of recorded.results) {
+    const name = row.name as string;
+    const actualStatus = hostStatuses.get(name);
+
+    if (actualStatus === undefined) {
+      if (row.status !== 'missing') report.missing.push(name);
+    } else if (actualStatus !== row.status) {
+      report.statusMismatches.push({ vmName: name, recordedStatus: row.status as string, actualStatus });
+    }
+  }
+
+  // VM names are unique across servers, a VM recorded on another server is not untracked
+  const unmatched = hostVMs.filter(vm => !recorded.results.some(row => row.name === vm.name));
+  for (const vm of unmatched) {
+    const existing = await env.DB.prepare('SELECT 1 FROM vms WHERE name = ?').bind(vm.name).first();
+    if (!existing) report.untracked.push({ vmName: vm.name, status: vm.status });
+  }
+
+  // Only hostnames under BASE_DOMAIN belong to VMs, other ingress rules are left alone.
+  // Hostnames are sanitized names, e.g. older VMs named My_VM are routed as my-vm.
+  const hostSubdomains = new Set(hostVMs.map(vm => getVMSubdomain(env, vm.name)));
+  for (const hostname of ingressHostnames) {
+    if (hostname.endsWith(`.${env.BASE_DOMAIN}`) && !hostSubdomains.has(hostname)) {
+      report.orphanedIngress.push(hostname);
+    }
+  }
+
+  return report;
+}
+
+// Make the vms table follow the host: mark missing VMs and take over the host's status
+async function repairDrift(env: Bindings, report: DriftReport): Promise<void> {
+  const now = new Date().toISOString();
+
+  // The status condition skips rows a task updated since the report was built
+  for (const vmName of report.missing) {
+    await env.DB.prepare(`
+      UPDATE vms SET status = 'missing', updated_at = ? WHERE name = ? AND status NOT IN ('reserved', 'missing')
+    `).bind(now, vmName).run();
+  }
+
+  for (const mismatch of report.statusMismatches) {
+    await env.DB.prepare(`
+      UPDATE vms SET status = ?, updated_at = ? WHERE name = ? AND status = ?
+    `).bind(mismatch.actualStatus, now, mismatch.vmName, mismatch.recordedStatus).run();
+  }
+}
+
+// Authentication: tenant routes accept tenant keys and the admin key,
+// /admin routes accept only the admin key
+app.use('/vm/*', authenticate);
+app.use('/vms', authenticate);
+app.use('/stats', authenticate);
+app.use('/settings/*', authenticate);
+app.use('/schedules', authenticate);
+app.use('/schedules/*', authenticate);
+app.use('/admin/*', authenticate, requireAdmin);
+
+// Health check endpoint
+app.get('/health', (c) => {
+  return c.json({
+    status: 'healthy',
+    timestamp: new Date().toISOString(),
+    service: 'vm-api-worker',
+    database: 'D1'
+  });
+});
+
+// Database health check
+app.get('/health/db', async (c) => {
+  try {
+    const result = await c.env.DB.prepare('SELECT COUNT(*) as count FROM vm_tasks').first();
+    return c.json({
+      status: 'healthy',
+      database: 'connected',
+      totalTasks: result?.count || 0,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    return c.json({
+      status: 'unhealthy',
+      database: 'error',
+      error: error instanceof Error ? error.message : String(error),
+      timestamp: new Date().toISOString()
+    }, 500);
+  }
+});
+
+// Create a new VM task
+app.post('/vm/tasks', async (c) => {
+  try {
+    const body = await c.req.json();
+    const { type, payload, callbackUrl, priority = 'normal', runAt } = body;
+    const idempotencyKey = c.req.header('Idempotency-Key');
+
+    if (idempotencyKey !== undefined && (idempotencyKey.trim() === '' || idempotencyKey.length > 255)) {
+      return c.json({
+        success: false,
+        error: 'Idempotency-Key header must be between 1 and 255 characters'
+      }, 400);
+    }
+
+    // Validate required fields
+    if (!type || !payload || !payload.vmName) {
+      return c.json({
+        success: false,
+        error: 'Missing required fields: type, payload.vmName'
+      }, 400);
+    }
+
+    // Validate task type
+    if (!TASK_TYPES.includes(type)) {
+      return c.json({
+        success: false,
+        error: `Invalid task type. Must be one of: ${TASK_TYPES.join(', ')}`
+      }, 400);
+    }
+
+    if (!TASK_PRIORITIES.includes(priority)) {
+      return c.json({
+        success: false,
+        error: `Invalid priority. Must be one of: ${TASK_PRIORITIES.join(', ')}`
+      }, 400);
+    }
+
+    if (runAt !== undefined && (typeof runAt !== 'string' || isNaN(Date.parse(runAt)))) {
+      return c.json({
+        success: false,
+        error: 'runAt must be an ISO 8601 timestamp'
+      }, 400);
+    }
+
+    const payloadError = validateTaskPayload(type, payload);
+    if (payloadError) {
+      return c.json({
+        success: false,
+        error: payloadError
+      }, 400);
+    }
+
+    if (callbackUrl !== undefined) {
+      if (!isValidWebhookUrl(callbackUrl)) {
+        return c.json({
+          success: false,
+          error: 'callbackUrl must be an https URL'
+        }, 400);
+      }
+
+      // Webhooks are signed with the tenant's secret
+      if (!c.get('tenantId')) {
+        return c.json({
+          success: false,
+          error: 'callbackUrl requires a tenant API key'
+        }, 400);
+      }
+    }
+
+    // Tasks for an existing VM follow it to the host it was launched on
+    let targetServer: string = payload.targetServer || 'default';
+    if (!payload.targetServer && type !== 'launch_vm') {
+      const vm = await getVM(c.env.DB, payload.vmName, c.get('tenantId'));
+      if (vm?.server) {
+        targetServer = vm.server;
+      }
+    }
+
+    const taskId = uuidv4();
+    const now = new Date().toISOString();
+
+    // Tasks due in the future wait in D1 until the cron trigger enqueues them
+    const scheduledAt = runAt && Date.parse(runAt) > Date.now() ? new Date(runAt).toISOString() : undefined;
+
+    const task: VMTask = {
+      id: taskId,
+      type,
+      payload: toTaskPayload(type, payload, targetServer),
+      status: scheduledAt ? 'scheduled' : 'pending',
+      priority,
+      runAt: scheduledAt,
+      tenantId: c.get('tenantId'),
+      idempotencyKey,
+      callbackUrl,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    const requestHash = idempotencyKey
+      ? await sha256Hex(stableStringify({
+          type,
+          payload,
+          ...(callbackUrl && { callbackUrl }),
+          // Omitted and default priority are the same request
+          ...(priority !== 'normal' && { priority }),
+          ...(runAt !== undefined && { runAt: new Date(runAt).toISOString() })
+        }))
+      : undefined;
+
+    // Store task in D1 database
+    const created = await createTask(c.env.DB, task, requestHash);
+
+    // A task with this Idempotency-Key already exists, return it instead of enqueueing again
+    if (!created && idempotencyKey) {
+      const existing = await findTaskByIdempotencyKey(c.env.DB, idempotencyKey, task.tenantId);
+      if (!existing) {
+        throw new Error(`Task for Idempotency-Key ${idempotencyKey} was not created and could not be found`);
+      }
+
+      if (existing.requestHash !== requestHash) {
+        return c.json({
+          success: false,
+          error: 'Idempotency-Key was already used with a different request body',
+          taskId: existing.id
+        }, 422);
+      }
+
+      console.log(`Idempotent replay of task ${existing.id} for key: ${idempotencyKey}`);
+
+      return c.json({
+        success: true,
+        taskId: existing.id,
+        status: existing.status,
+        idempotentReplay: true,
+        message: `VM ${type.replace('_', ' ')} task already queued for this Idempotency-Key`
+      });
+    }
+
+    // Reserve the name and subdomain in the same request, so concurrent launches can't both pass
+    if (type === 'launch_vm') {
+      const subdomain = getVMSubdomain(c.env, payload.vmName);
+
+      if (!await reserveVM(c.env.DB, payload.vmName, subdomain, task.tenantId)) {
+        await c.env.DB.prepare('DELETE FROM vm_tasks WHERE id = ?').bind(taskId).run();
+
+        const holder = await findVMBySubdomain(c.env.DB, subdomain);
+        return c.json({
+          success: false,
+          error: holder && holder.name !== payload.vmName
+            ? `Subdomain ${subdomain} is already used by VM ${holder.name}`
+            : `VM name ${payload.vmName} is already in use`
+        }, 409);
+      }
+    }
+    
+    await recordTaskEvent(c.env.DB, {
+      taskId,
+      type: 'created',
+      toStatus: task.status,
+      details: idempotencyKey || scheduledAt ? { idempotencyKey, runAt: scheduledAt } : undefined
+    });
+
+    if (callbackUrl) {
+      await ensureTenantSettings(c.env.DB, c.get('tenantId')!);
+    }
+
+    c.executionCtx.waitUntil(publishTaskUpdate(c.env, task, task.status));
+
+    if (scheduledAt) {
+      console.log(`VM task scheduled: ${taskId} (${type}) for VM: ${payload.vmName} at ${scheduledAt}`);
+
+      return c.json({
+        success: true,
+        taskId,
+        status: 'scheduled',
+        runAt: scheduledAt,
+        message: `VM ${type.replace('_', ' ')} task scheduled successfully`
+      });
+    }
+
+    // Add task to processing queue
+    await enqueueTask(c.env, task);
+
+    console.log(`VM task created: ${taskId} (${type}) for VM: ${payload.vmName}`);
+
+    return c.json({
+      success: true,
+      taskId,
+      status: 'pending',
+      message: `VM ${type.replace('_', ' ')} task queued successfully`
+    });
+
+  } catch (error) {
+    console.error('Error creating VM task:', error);
+    return c.json({
+      success: false,
+      error: 'Internal server error'
+    }, 500);
+  }
+});
+
+// Get task status
+app.get('/vm/tasks/:taskId/status', async (c) => {
+  try {
+    const taskId = c.req.param('taskId');
+    const task = await getTask(c.env.DB, taskId, c.get('tenantId'));
+    
+    if (!task) {
+      return c.json({
+        success: false,
+        error: 'Task not found'
+      }, 404);
+    }
+    
+    return c.json({
+      taskId: task.id,
+      type: task.type,
+      status: task.status,
+      priority: task.priority,
+      runAt: task.runAt || null,
+      vmName: task.payload.vmName,
+      targetServer: task.payload.targetServer,
+      placementError: task.placementError || null,
+      createdAt: task.createdAt,
+      updatedAt: task.updatedAt,
+      completedAt: task.completedAt,
+      attempts: task.attempts,
+      lastAttemptAt: task.lastAttemptAt,
+      cancelRequested: !!task.cancelRequestedAt,
+      error: task.error,
+      result: task.result
+    });
+
+  } catch (error) {
+    console.error('Error getting task status:', error);
+    return c.json({
+      success: false,
+      error: 'Internal server error'
+    }, 500);
+  }
+});
+
+// Stream status changes of a single task as Server-Sent Events (ends when the task finishes)
+app.get('/vm/tasks/:taskId/stream', async (c) => {
+  try {
+    const taskId = c.req.param('taskId');
+    const task = await getTask(c.env.DB, taskId, c.get('tenantId'));
+
+    if (!task) {
+      return c.json({
+        success: false,
+        error: 'Task not found'
+      }, 404);
+    }
+
+    const hubName = task.tenantId || ALL_TENANTS_HUB;
+
+    return getEventHub(c.env, hubName).fetch('https://task-event-hub/stream', {
+      method: 'POST',
+      body: JSON.stringify({
+        taskId,
+        snapshot: toStreamEvent(task, task.status, task.error, task.result)
+      })
+    });
+
+  } catch (error) {
+    console.error('Error opening task stream:', error);
+    return c.json({
+      success: false,
+      error: 'Internal server error'
+    }, 500);
+  }
+});
+
+// Stream status changes of all tasks of the tenant as Server-Sent Events
+app.get('/vm/tasks/stream', async (c) => {
+  try {
+    const hubName = c.get('tenantId') || ALL_TENANTS_HUB;
+
+    return getEventHub(c.env, hubName).fetch('https://task-event-hub/stream', {
+      method: 'POST',
+      body: JSON.stringify({ taskId: null })
+    });
+
+  } catch (error) {
+    console.error('Error opening task firehose:', error);
+    return c.json({
+      success: false,
+      error: 'Internal server error'
+    }, 500);
+  }
+});
+
+// List all tasks with pagination and filtering
+app.get('/vm/tasks', async (c) => {
+  try {
+    const status = c.req.query('status'); // Filter by status
+    const vmName = c.req.query('vmName'); // Filter by VM name
+    const limit = parseInt(c.req.query('limit') || '50');
+    const offset = parseInt(c.req.query('offset') || '0');
+
+    let query = `
+      SELECT 
+        id, type, vm_name, status, priority, attempts, created_at, updated_at, completed_at
+      FROM vm_tasks 
+    `;
+    const params: any[] = [];
+    const conditions: string[] = [];
+
+    const tenantId = c.get('tenantId');
+    if (tenantId) {
+      conditions.push('tenant_id = ?');
+      params.push(tenantId);
+    }
+
+    if (status) {
+      conditions.push('status = ?');
+      params.push(status);
+    }
+
+    if (vmName) {
+      conditions.push('vm_name LIKE ?');
+      params.push(`%${vmName}%`);
+    }
+
+    if (conditions.length > 0) {
+      query += ' WHERE ' + conditions.join(' AND ');
+    }
+
+    query += ' ORDER BY created_at DESC LIMIT ? OFFSET ?';
+    params.push(limit, offset);
+
+    const result = await c.env.DB.prepare(query).bind(...params).all();
+
+    const tasks = result.results.map(row => ({
+      id: row.id,
+      type: row.type,
+      status: row.status,
+      priority: row.priority,
+      vmName: row.vm_name,
+      attempts: row.attempts,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      completedAt: row.completed_at
+    }));
+
+    // Get total count for pagination
+    let countQuery = 'SELECT COUNT(*) as total FROM vm_tasks';
+    const countParams: any[] = [];
+    
+    if (conditions.length > 0) {
+      countQuery += ' WHERE ' + conditions.join(' AND ');
+      countParams.push(...params.slice(0, -2)); // Exclude limit and offset
+    }
+
+    const countResult = await c.env.DB.prepare(countQuery).bind(...countParams).first();
+    const totalCount = Number(countResult?.total) || 0;
+
+    return c.json({
+      tasks,
+      count: tasks.length,
+      totalCount,
+      pagination: {
+        limit,
+        offset,
+        hasMore: offset + limit < totalCount
+      }
+    });
+
+  } catch (error) {
+    console.error('Error listing tasks:', error);
+    return c.json({
+      success: false,
+      error: 'Internal server error'
+    }, 500);
+  }
+});
+
+// Update task status (called by consumer/local consumer with the admin key)
+app.put('/vm/tasks/:taskId/status', requireAdmin, async (c) => {
+  try {
+    const taskId = c.req.param('taskId');
+    const body = await c.req.json();
+    const { status, expectedStatus, error, result, consumerId } = body;
+
+    if (!isTaskStatus(status)) {
+      return c.json({
+        success: false,
+        error: `Invalid status. Must be one of: ${Object.keys(TASK_TRANSITIONS).join(', ')}`
+      }, 400);
+    }
+
+    if (expectedStatus !== undefined && !isTaskStatus(expectedStatus)) {
+      return c.json({
+        success: false,
+        error: 'Invalid expectedStatus'
+      }, 400);
+    }
+
+    const task = await getTask(c.env.DB, taskId);
+    if (!task) {
+      return c.json({
+        success: false,
+        error: 'Task not found'
+      }, 404);
+    }
+
+    // The reporter's view of the task is outdated
+    if (expectedStatus && expectedStatus !== task.status) {
+      return c.json({
+        success: false,
+        error: `Task status is ${task.status}, expected ${expectedStatus}`,
+        taskId,
+        status: task.status
+      }, 409);
+    }
+
+    // Late or out-of-order reports must not move a task backwards (e.g. completed -> processing)
+    if (!canReportTransition(task.status, status)) {
+      return c.json({
+        success: false,
+        error: `Illegal status transition: ${task.status} -> ${status}`,
+        taskId,
+        status: task.status
+      }, 409);
+    }
+
+    // Returning a task to the ready pool is only safe for the reporter that saw it processing
+    if (task.status === 'processing' && status === 'pending' && expectedStatus !== 'processing') {
+      return c.json({
+        success: false,
+        error: 'expectedStatus processing is required to return a task to pending',
+        taskId,
+        status: task.status
+      }, 400);
+    }
+
+    const conflictResponse = () => c.json({
+      success: false,
+      error: 'Task status was changed concurrently, please retry',
+      taskId
+    }, 409);
+
+    // Failed attempts are re-enqueued with backoff until the retry policy is exhausted,
+    // unless cancellation of the task was requested
+    if (status === 'failed' && !task.cancelRequestedAt) {
+      const policy = getRetryPolicy(c.env, task.type);
+      const attempts = task.attempts || 0;
+
+      if (attempts < policy.maxAttempts) {
+        const delaySeconds = getRetryDelaySeconds(policy, attempts);
+
+        if (!await updateTaskStatus(c.env.DB, taskId, task.status, 'pending', error, undefined, consumerId)) {
+          return conflictResponse();
+        }
+        await enqueueTask(c.env, task, delaySeconds);
+
+        c.executionCtx.waitUntil(publishTaskUpdate(c.env, task, 'pending', error));
+
+        console.log(`Task ${taskId} failed (attempt ${attempts}/${policy.maxAttempts}), retrying in ${delaySeconds}s`);
+
+        return c.json({
+          success: true,
+          message: `Task failed, retry scheduled in ${delaySeconds}s`,
+          taskId,
+          status: 'pending',
+          attempts,
+          retryInSeconds: delaySeconds
+        });
+      }
+    }
+
+    if (!await updateTaskStatus(c.env.DB, taskId, task.status, status, error, result, consumerId)) {
+      return conflictResponse();
+    }
+
+    c.executionCtx.waitUntil(publishTaskUpdate(c.env, task, status, error, result));
+
+    if (TERMINAL_STATUSES.includes(status)) {
+      await scheduleWebhookDeliveries(c.env, task, status, error, result);
+    }
+
+    if (status === 'processing') {
+      await recordTaskAttempt(c.env.DB, taskId);
+    }
+
+    // A launch that did not complete gives its name and subdomain back
+    if (task.type === 'launch_vm' && TERMINAL_STATUSES.includes(status) && status !== 'completed') {
+      await releaseVMReservation(c.env.DB, task.payload.vmName);
+    }
+
+    // A deleted VM frees its name and subdomain
+    if (task.type === 'delete_vm' && status === 'completed') {
+      await deleteVM(c.env.DB, task.payload.vmName);
+    }
+
+    // If task completed with VM info, update VMs table
+    if (status === 'completed' && result && result.subdomain) {
+      await upsertVM(c.env.DB, {
+        name: result.vmName,
+        ipAddress: result.ip,
+        status: 'running',
+        subdomain: result.subdomain,
+        port: 8080,
+        metadata: result,
+        tenantId: task.tenantId,
+        server: result.server || (task.payload.targetServer !== 'default' ? task.payload.targetServer : null),
+        expiresAt: getVMExpiry(task)
+      });
+    }
+
+    console.log(`Task ${taskId} status updated to: ${status}`);
+
+    return c.json({
+      success: true,
+      message: `Task marked as ${status}`,
+      taskId,
+      status
+    });
+
+  } catch (error) {
+    console.error('Error updating task status:', error);
+    return c.json({
+      success: false,
+      error: 'Internal server error'
+    }, 500);
+  }
+});
+
+// Record an event reported by the consumer worker (claims, expired leases)
+app.post('/vm/tasks/:taskId/events', requireAdmin, async (c) => {
+  try {
+    const taskId = c.req.param('taskId');
+    const body = await c.req.json();
+    const { type, consumerId, message, details } = body;
+
+    if (!CONSUMER_EVENT_TYPES.includes(type)) {
+      return c.json({
+        success: false,
+        error: `Invalid event type. Must be one of: ${CONSUMER_EVENT_TYPES.join(', ')}`
+      }, 400);
+    }
+
+    const task = await getTask(c.env.DB, taskId);
+    if (!task) {
+      return c.json({
+        success: false,
+        error: 'Task not found'
+      }, 404);
+    }
+
+    await recordTaskEvent(c.env.DB, {
+      taskId,
+      type,
+      consumerId,
+      message,
+      details
+    });
+
+    return c.json({
+      success: true,
+      taskId,
+      type
+    }, 201);
+
+  } catch (error) {
+    console.error('Error recording task event:', error);
+    return c.json({
+      success: false,
+      error: 'Internal server error'
+    }, 500);
+  }
+});
+
+// Record where the consumer worker's scheduler placed a launch, or why it could not be placed yet
+app.put('/vm/tasks/:taskId/placement', requireAdmin, async (c) => {
+  try {
+    const taskId = c.req.param('taskId');
+    const body = await c.req.json();
+    const { targetServer, error } = body;
+
+    if (!targetServer && !error) {
+      return c.json({
+        success: false,
+        error: 'Either targetServer or error is required'
+      }, 400);
+    }
+
+    const task = await getTask(c.env.DB, taskId);
+    if (!task) {
+      return c.json({
+        success: false,
+        error: 'Task not found'
+      }, 404);
+    }
+
+    const now = new Date().toISOString();
+
+    if (targetServer) {
+      await c.env.DB.prepare(`
+        UPDATE vm_tasks SET target_server = ?, placement_error = NULL, updated_at = ? WHERE id = ?
+      `).bind(targetServer, now, taskId).run();
+
+      await recordTaskEvent(c.env.DB, {
+        taskId,
+        type: 'placed',
+        message: `Placed on server ${targetServer}`,
+        details: { targetServer }
+      });
+    } else {
+      await c.env.DB.prepare(`
+        UPDATE vm_tasks SET placement_error = ?, updated_at = ? WHERE id = ?
+      `).bind(error, now, taskId).run();
+
+      await recordTaskEvent(c.env.DB, {
+        taskId,
+        type: 'placement_pending',
+        message: error
+      });
+    }
+
+    return c.json({
+      success: true,
+      taskId,
+      targetServer: targetServer || task.payload.targetServer,
+      placementError: targetServer ? null : error
+    });
+
+  } catch (error) {
+    console.error('Error recording task placement:', error);
+    return c.json({
+      success: false,
+      error: 'Internal server error'
+    }, 500);
+  }
+});
+
+// Get the ordered event timeline of a task
+app.get('/vm/tasks/:taskId/events', async (c) => {
+  try {
+    const taskId = c.req.param('taskId');
+    const task = await getTask(c.env.DB, taskId, c.get('tenantId'));
+
+    if (!task) {
+      return c.json({
+        success: false,
+        error: 'Task not found'
+      }, 404);
+    }
+
+    const events = await getTaskEvents(c.env.DB, taskId);
+
+    // Time spent between consecutive events (i.e. in each phase)
+    const timeline = events.map((event, index) => ({
+      ...event,
+      elapsedMs: index > 0
+        ? new Date(event.createdAt).getTime() - new Date(events[index - 1].createdAt).getTime()
+        : 0
+    }));
+
+    return c.json({
+      taskId,
+      status: task.status,
+      attempts: task.attempts,
+      events: timeline,
+      count: timeline.length,
+      totalDurationMs: timeline.length > 0
+        ? new Date(timeline[timeline.length - 1].createdAt).getTime() - new Date(timeline[0].createdAt).getTime()
+        : 0
+    });
+
+  } catch (error) {
+    console.error('Error getting task events:', error);
+    return c.json({
+      success: false,
+      error: 'Internal server error'
+    }, 500);
+  }
+});
+
+// List webhook deliveries of a task
+app.get('/vm/tasks/:taskId/webhooks', async (c) => {
+  try {
+    const taskId = c.req.param('taskId');
+    const task = await getTask(c.env.DB, taskId, c.get('tenantId'));
+
+    if (!task) {
+      return c.json({
+        success: false,
+        error: 'Task not found'
+      }, 404);
+    }
+
+    const result = await c.env.DB.prepare(`
+      SELECT id, url, event_type, status, attempts, last_status_code, last_error,
+             last_attempt_at, delivered_at, created_at
+      FROM webhook_deliveries
+      WHERE task_id = ?
+      ORDER BY created_at ASC
+    `).bind(taskId).all();
+
+    const deliveries = result.results.map(row => ({
+      id: row.id,
+      url: row.url,
+      event: row.event_type,
+      status: row.status,
+      attempts: row.attempts,
+      lastStatusCode: row.last_status_code,
+      lastError: row.last_error,
+      lastAttemptAt: row.last_attempt_at,
+      deliveredAt: row.delivered_at,
+      createdAt: row.created_at
+    }));
+
+    return c.json({
+      taskId,
+      deliveries,
+      count: deliveries.length
+    });
+
+  } catch (error) {
+    console.error('Error listing webhook deliveries:', error);
+    return c.json({
+      success: false,
+      error: 'Internal server error'
+    }, 500);
+  }
+});
+
+// Manually retry a failed task with its original payload
+app.post('/vm/tasks/:taskId/retry', async (c) => {
+  try {
+    const taskId = c.req.param('taskId');
+    const task = await getTask(c.env.DB, taskId, c.get('tenantId'));
+
+    if (!task) {
+      return c.json({
+        success: false,
+        error: 'Task not found'
+      }, 404);
+    }
+
+    if (task.status !== 'failed') {
+      return c.json({
+        success: false,
+        error: `Cannot retry task with status: ${task.status}`
+      }, 409);
+    }
+
+    // The failed launch released its name, take it back before running again
+    if (task.type === 'launch_vm' &&
+        !await reserveVM(c.env.DB, task.payload.vmName, getVMSubdomain(c.env, task.payload.vmName), task.tenantId)) {
+      return c.json({
+        success: false,
+        error: `VM name ${task.payload.vmName} is already in use`
+      }, 409);
+    }
+
+    if (!await updateTaskStatus(c.env.DB, taskId, 'failed', 'pending')) {
+      return c.json({
+        success: false,
+        error: 'Task status was changed concurrently'
+      }, 409);
+    }
+    await enqueueTask(c.env, task);
+
+    c.executionCtx.waitUntil(publishTaskUpdate(c.env, task, 'pending'));
+
+    console.log(`Task ${taskId} manually re-enqueued after ${task.attempts} attempt(s)`);
+
+    return c.json({
+      success: true,
+      message: 'Task re-enqueued successfully',
+      taskId,
+      status: 'pending',
+      attempts: task.attempts
+    });
+
+  } catch (error) {
+    console.error('Error retrying task:', error);
+    return c.json({
+      success: false,
+      error: 'Internal server error'
+    }, 500);
+  }
+});
+
+// List tasks whose queue message ended up in the dead-letter queue
+app.get('/vm/tasks/dead-lettered', async (c) => {
+  try {
+    const limit = parseInt(c.req.query('limit') || '50');
+    const offset = parseInt(c.req.query('offset') || '0');
+
+    let query = `
+      SELECT id, type, vm_name, status, attempts, error_message, created_at, updated_at, completed_at
+      FROM vm_tasks
+      WHERE status = 'dead_lettered'
+    `;
+    const params: any[] = [];
+
+    const tenantId = c.get('tenantId');
+    if (tenantId) {
+      query += ' AND tenant_id = ?';
+      params.push(tenantId);
+    }
+
+    query += ' ORDER BY updated_at DESC LIMIT ? OFFSET ?';
+    params.push(limit, offset);
+
+    const result = await c.env.DB.prepare(query).bind(...params).all();
+
+    const tasks = result.results.map(row => ({
+      id: row.id,
+      type: row.type,
+      status: row.status,
+      vmName: row.vm_name,
+      attempts: row.attempts,
+      error: row.error_message,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      deadLetteredAt: row.completed_at
+    }));
+
+    return c.json({
+      tasks,
+      count: tasks.length
+    });
+
+  } catch (error) {
+    console.error('Error listing dead-lettered tasks:', error);
+    return c.json({
+      success: false,
+      error: 'Internal server error'
+    }, 500);
+  }
+});
+
+// List tasks waiting for their runAt, soonest first
+app.get('/vm/tasks/scheduled', async (c) => {
+  try {
+    const limit = parseInt(c.req.query('limit') || '50');
+    const offset = parseInt(c.req.query('offset') || '0');
+
+    let query = `
+      SELECT id, type, vm_name, status, priority, run_at, created_at, updated_at
+      FROM vm_tasks
+      WHERE status = 'scheduled'
+    `;
+    const params: any[] = [];
+
+    const tenantId = c.get('tenantId');
+    if (tenantId) {
+      query += ' AND tenant_id = ?';
+      params.push(tenantId);
+    }
+
+    query += ' ORDER BY run_at ASC LIMIT ? OFFSET ?';
+    params.push(limit, offset);
+
+    const result = await c.env.DB.prepare(query).bind(...params).all();
+
+    const tasks = result.results.map(row => ({
+      id: row.id,
+      type: row.type,
+      status: row.status,
+      priority: row.priority,
+      vmName: row.vm_name,
+      runAt: row.run_at,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    }));
+
+    return c.json({
+      tasks,
+      count: tasks.length
+    });
+
+  } catch (error) {
+    console.error('Error listing scheduled tasks:', error);
+    return c.json({
+      success: false,
+      error: 'Internal server error'
+    }, 500);
+  }
+});
+
+// Move a scheduled task to a new runAt
+app.put('/vm/tasks/:taskId/schedule', async (c) => {
+  try {
+    const taskId = c.req.param('taskId');
+    const body = await c.req.json();
+    const { runAt } = body;
+
+    if (typeof runAt !== 'string' || isNaN(Date.parse(runAt))) {
+      return c.json({
+        success: false,
+        error: 'runAt must be an ISO 8601 timestamp'
+      }, 400);
+    }
+
+    const task = await getTask(c.env.DB, taskId, c.get('tenantId'));
+
+    if (!task) {
+      return c.json({
+        success: false,
+        error: 'Task not found'
+      }, 404);
+    }
+
+    if (task.status !== 'scheduled') {
+      return c.json({
+        success: false,
+        error: `Cannot reschedule task with status: ${task.status}`
+      }, 409);
+    }
+
+    const newRunAt = new Date(runAt).toISOString();
+    const result = await c.env.DB.prepare(`
+      UPDATE vm_tasks SET run_at = ?, updated_at = ? WHERE id = ? AND status = 'scheduled'
+    `).bind(newRunAt, new Date().toISOString(), taskId).run();
+
+    if (result.meta.changes === 0) {
+      return c.json({
+        success: false,
+        error: 'Task status was changed concurrently'
+      }, 409);
+    }
+
+    await recordTaskEvent(c.env.DB, {
+      taskId,
+      type: 'rescheduled',
+      message: `Rescheduled from ${task.runAt} to ${newRunAt}`,
+      details: { previousRunAt: task.runAt, runAt: newRunAt }
+    });
+
+    console.log(`Task ${taskId} rescheduled to ${newRunAt}`);
+
+    return c.json({
+      success: true,
+      message: 'Task rescheduled successfully',
+      taskId,
+      status: 'scheduled',
+      runAt: newRunAt
+    });
+
+  } catch (error) {
+    console.error('Error rescheduling task:', error);
+    return c.json({
+      success: false,
+      error: 'Internal server error'
+    }, 500);
+  }
+});
+
+// Replay a dead-lettered task onto the main queue
+app.post('/vm/tasks/:taskId/replay', async (c) => {
+  try {
+    const taskId = c.req.param('taskId');
+    const task = await getTask(c.env.DB, taskId, c.get('tenantId'));
+
+    if (!task) {
+      return c.json({
+        success: false,
+        error: 'Task not found'
+      }, 404);
+    }
+
+    if (task.status !== 'dead_lettered') {
+      return c.json({
+        success: false,
+        error: `Cannot replay task with status: ${task.status}`
+      }, 409);
+    }
+
+    // The failed launch released its name, take it back before running again
+    if (task.type === 'launch_vm' &&
+        !await reserveVM(c.env.DB, task.payload.vmName, getVMSubdomain(c.env, task.payload.vmName), task.tenantId)) {
+      return c.json({
+        success: false,
+        error: `VM name ${task.payload.vmName} is already in use`
+      }, 409);
+    }
+
+    if (!await updateTaskStatus(c.env.DB, taskId, 'dead_lettered', 'pending')) {
+      return c.json({
+        success: false,
+        error: 'Task status was changed concurrently'
+      }, 409);
+    }
+    await enqueueTask(c.env, task);
+
+    c.executionCtx.waitUntil(publishTaskUpdate(c.env, task, 'pending'));
+
+    console.log(`Dead-lettered task ${taskId} replayed onto the main queue`);
+
+    return c.json({
+      success: true,
+      message: 'Task replayed successfully',
+      taskId,
+      status: 'pending'
+    });
+
+  } catch (error) {
+    console.error('Error replaying task:', error);
+    return c.json({
+      success: false,
+      error: 'Internal server error'
+    }, 500);
+  }
+});
+
+// Cancel a pending task, or request cancellation of a processing task
+app.delete('/vm/tasks/:taskId', async (c) => {
+  try {
+    const taskId = c.req.param('taskId');
+    const task = await getTask(c.env.DB, taskId, c.get('tenantId'));
+    
+    if (!task) {
+      return c.json({
+        success: false,
+        error: 'Task not found'
+      }, 404);
+    }
+    
+    if (task.status !== 'scheduled' && task.status !== 'pending' && task.status !== 'processing') {
+      return c.json({
+        success: false,
+        error: `Cannot cancel task with status: ${task.status}`
+      }, 400);
+    }
+
+    // Scheduled tasks were never enqueued, so there is nothing to remove from the buffer
+    if (task.status !== 'scheduled') {
+      try {
+        await cancelBufferedTask(c.env, task);
+      } catch (bufferError) {
+        // The local consumer re-checks the task status before executing it
+        console.error(`Error removing task ${taskId} from the consumer buffer:`, bufferError);
+      }
+    }
+
+    // A processing task is cancelled by its local consumer between steps
+    if (task.status === 'processing') {
+      await requestTaskCancellation(c.env.DB, taskId);
+
+      console.log(`Cancellation requested for processing task ${taskId}`);
+
+      return c.json({
+        success: true,
+        message: 'Cancellation requested, the task will stop at its next step',
+        taskId,
+        status: task.status,
+        cancelRequested: true
+      }, 202);
+    }
+
+    // Mark as cancelled
+    if (!await updateTaskStatus(c.env.DB, taskId, task.status, 'cancelled', 'Task cancelled by user')) {
+      return c.json({
+        success: false,
+        error: 'Task status was changed concurrently'
+      }, 409);
+    }
+
+    c.executionCtx.waitUntil(publishTaskUpdate(c.env, task, 'cancelled', 'Task cancelled by user'));
+    await scheduleWebhookDeliveries(c.env, task, 'cancelled', 'Task cancelled by user');
+
+    if (task.type === 'launch_vm') {
+      await releaseVMReservation(c.env.DB, task.payload.vmName);
+    }
+
+    console.log(`Task ${taskId} cancelled`);
+
+    return c.json({
+      success: true,
+      message: 'Task cancelled successfully',
+      taskId,
+      status: 'cancelled'
+    });
+
+  } catch (error) {
+    console.error('Error cancelling task:', error);
+    return c.json({
+      success: false,
+      error: 'Internal server error'
+    }, 500);
+  }
+});
+
+// Get VM status and info
+app.get('/vm/:vmName/status', async (c) => {
+  try {
+    const vmName = c.req.param('vmName');
+    const vm = await getVM(c.env.DB, vmName, c.get('tenantId'));
+    
+    if (!vm) {
+      return c.json({
+        success: false,
+        error: 'VM not found',
+        vmName
+      }, 404);
+    }
+
+    return c.json({
+      success: true,
+      vmName: vm.name,
+      status: vm.status,
+      ipAddress: vm.ipAddress,
+      subdomain: vm.subdomain,
+      port: vm.port,
+      server: vm.server || null,
+      expiresAt: vm.expiresAt || null,
+      url: vm.subdomain ? `https://${vm.subdomain}` : null,
+      createdAt: vm.createdAt,
+      updatedAt: vm.updatedAt,
+      metadata: vm.metadata
+    });
+
+  } catch (error) {
+    console.error('Error getting VM status:', error);
+    return c.json({
+      success: false,
+      error: 'Internal server error'
+    }, 500);
+  }
+});
+
+// Extend a VM's lifetime by a ttl, or set a new expiresAt
+app.post('/vm/:vmName/extend', async (c) => {
+  try {
+    const vmName = c.req.param('vmName');
+    const body = await c.req.json().catch(() => ({}));
+
+    if ((body.ttl === undefined) === (body.expiresAt === undefined)) {
+      return c.json({
+        success: false,
+        error: 'Exactly one of ttl or expiresAt is required'
+      }, 400);
+    }
+
+    const ttlSeconds = body.ttl !== undefined ? parseDurationSeconds(body.ttl) : null;
+    if (body.ttl !== undefined && ttlSeconds === null) {
+      return c.json({
+        success: false,
+        error: 'ttl must be a number of seconds or a duration like "30m", "2h" or "7d"'
+      }, 400);
+    }
+
+    if (body.expiresAt !== undefined && (typeof body.expiresAt !== 'string' || !(Date.parse(body.expiresAt) > Date.now()))) {
+      return c.json({
+        success: false,
+        error: 'expiresAt must be an ISO 8601 timestamp in the future'
+      }, 400);
+    }
+
+    const vm = await getVM(c.env.DB, vmName, c.get('tenantId'));
+    if (!vm || vm.status === 'reserved') {
+      return c.json({
+        success: false,
+        error: 'VM not found',
+        vmName
+      }, 404);
+    }
+
+    // Too late once the sweep issued a delete task that is still going
+    if (vm.expiryTaskId) {
+      const expiryTask = await getTask(c.env.DB, vm.expiryTaskId);
+      if (expiryTask && !['failed', 'dead_lettered', 'cancelled'].includes(expiryTask.status)) {
+        return c.json({
+          success: false,
+          error: 'VM has expired and is being deleted',
+          taskId: expiryTask.id
+        }, 409);
+      }
+    }
+
+    // A ttl extends the current expiry, or starts from now if the VM had none or it passed
+    const base = Math.max(Date.now(), vm.expiresAt ? Date.parse(vm.expiresAt) : 0);
+    const expiresAt = ttlSeconds !== null
+      ? new Date(base + ttlSeconds * 1000).toISOString()
+      : new Date(body.expiresAt).toISOString();
+
+    await c.env.DB.prepare(`
+      UPDATE vms SET expires_at = ?, expiry_task_id = NULL, expiry_attempts = 0, updated_at = ? WHERE name = ?
+    `).bind(expiresAt, new Date().toISOString(), vm.name).run();
+
+    return c.json({
+      success: true,
+      vmName: vm.name,
+      previousExpiresAt: vm.expiresAt || null,
+      expiresAt
+    });
+
+  } catch (error) {
+    console.error('Error extending VM:', error);
+    return c.json({
+      success: false,
+      error: 'Internal server error'
+    }, 500);
+  }
+});
+
+// List all VMs
+app.get('/vms', async (c) => {
+  try {
+    const status = c.req.query('status');
+    const limit = parseInt(c.req.query('limit') || '50');
+    const offset = parseInt(c.req.query('offset') || '0');
+
+    let query = 'SELECT * FROM vms';
+    const params: any[] = [];
+    const conditions: string[] = [];
+
+    const tenantId = c.get('tenantId');
+    if (tenantId) {
+      conditions.push('tenant_id = ?');
+      params.push(tenantId);
+    }
+
+    if (status) {
+      conditions.push('status = ?');
+      params.push(status);
+    }
+
+    if (conditions.length > 0) {
+      query += ' WHERE ' + conditions.join(' AND ');
+    }
+
+    query += ' ORDER BY created_at DESC LIMIT ? OFFSET ?';
+    params.push(limit, offset);
+
+    const result = await c.env.DB.prepare(query).bind(...params).all();
+
+    const vms = result.results.map(row => ({
+      id: row.id,
+      name: row.name,
+      ipAddress: row.ip_address,
+      status: row.status,
+      subdomain: row.subdomain,
+      port: row.port,
+      server: row.server || null,
+      expiresAt: row.expires_at || null,
+      url: row.subdomain ? `https://${row.subdomain}` : null,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      metadata: row.metadata ? JSON.parse(row.metadata as string) : undefined
+    }));
+
+    return c.json({
+      vms,
+      count: vms.length
+    });
 
   } catch (error) {
-    console.error('Error creating VM task:', error);
+    console.error('Error listing VMs:', error);
     return c.json({
       success: false,
       error: 'Internal server error'
@@ -277,33 +2924,391 @@ app.post('/vm/tasks', async (c) => {
   }
 });
 
-// Get task status
-app.get('/vm/tasks/:taskId/status', async (c) => {
+// Delete VM record
+app.delete('/vm/:vmName', async (c) => {
   try {
-    const taskId = c.req.param('taskId');
-    const task = await getTask(c.env.DB, taskId);
+    const vmName = c.req.param('vmName');
+    const deleted = await deleteVM(c.env.DB, vmName, c.get('tenantId'));
     
-    if (!task) {
+    if (!deleted) {
       return c.json({
         success: false,
-        error: 'Task not found'
+        error: 'VM not found'
       }, 404);
     }
-    
+
     return c.json({
-      taskId: task.id,
-      type: task.type,
-      status: task.status,
-      vmName: task.payload.vmName,
-      createdAt: task.createdAt,
-      updatedAt: task.updatedAt,
-      completedAt: task.completedAt,
-      error: task.error,
-      result: task.result
+      success: true,
+      message: 'VM record deleted successfully',
+      vmName
+    });
+
+  } catch (error) {
+    console.error('Error deleting VM:', error);
+    return c.json({
+      success: false,
+      error: 'Internal server error'
+    }, 500);
+  }
+});
+
+// Get dashboard statistics
+app.get('/stats', async (c) => {
+  try {
+    const tenantId = c.get('tenantId');
+    const tenantFilter = tenantId ? 'WHERE tenant_id = ?' : '';
+    const tenantParams = tenantId ? [tenantId] : [];
+
+    const [taskStats, vmStats] = await Promise.all([
+      c.env.DB.prepare(`
+        SELECT 
+          status,
+          COUNT(*) as count
+        FROM vm_tasks 
+        ${tenantFilter}
+        GROUP BY status
+      `).bind(...tenantParams).all(),
+      c.env.DB.prepare(`
+        SELECT 
+          status,
+          COUNT(*) as count
+        FROM vms 
+        ${tenantFilter}
+        GROUP BY status
+      `).bind(...tenantParams).all()
+    ]);
+
+    const taskCounts = taskStats.results.reduce((acc, row) => {
+      acc[row.status as string] = row.count;
+      return acc;
+    }, {} as Record<string, number>);
+
+    const vmCounts = vmStats.results.reduce((acc, row) => {
+      acc[row.status as string] = row.count;
+      return acc;
+    }, {} as Record<string, number>);
+
+    return c.json({
+      tasks: {
+        scheduled: taskCounts.scheduled || 0,
+        pending: taskCounts.pending || 0,
+        processing: taskCounts.processing || 0,
+        completed: taskCounts.completed || 0,
+        failed: taskCounts.failed || 0,
+        deadLettered: taskCounts.dead_lettered || 0,
+        cancelled: taskCounts.cancelled || 0,
+        total: Object.values(taskCounts).reduce((sum: number, count) => sum + (count as number), 0)
+      },
+      vms: {
+        running: vmCounts.running || 0,
+        stopped: vmCounts.stopped || 0,
+        unknown: vmCounts.unknown || 0,
+        reserved: vmCounts.reserved || 0,
+        missing: vmCounts.missing || 0,
+        total: Object.values(vmCounts).reduce((sum: number, count) => sum + (count as number), 0)
+      },
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Error getting stats:', error);
+    return c.json({
+      success: false,
+      error: 'Internal server error'
+    }, 500);
+  }
+});
+
+// Get the tenant webhook settings (including the signing secret)
+app.get('/settings/webhook', async (c) => {
+  try {
+    const tenantId = c.get('tenantId');
+    if (!tenantId) {
+      return c.json({
+        success: false,
+        error: 'Tenant API key required'
+      }, 403);
+    }
+
+    const settings = await ensureTenantSettings(c.env.DB, tenantId);
+
+    return c.json({
+      success: true,
+      webhookUrl: settings.webhookUrl || null,
+      webhookSecret: settings.webhookSecret,
+      updatedAt: settings.updatedAt
+    });
+
+  } catch (error) {
+    console.error('Error getting webhook settings:', error);
+    return c.json({
+      success: false,
+      error: 'Internal server error'
+    }, 500);
+  }
+});
+
+// Set (or clear with null) the tenant-level webhook URL
+app.put('/settings/webhook', async (c) => {
+  try {
+    const tenantId = c.get('tenantId');
+    if (!tenantId) {
+      return c.json({
+        success: false,
+        error: 'Tenant API key required'
+      }, 403);
+    }
+
+    const body = await c.req.json();
+    const { url } = body;
+
+    if (url !== null && !isValidWebhookUrl(url)) {
+      return c.json({
+        success: false,
+        error: 'url must be an https URL or null'
+      }, 400);
+    }
+
+    await ensureTenantSettings(c.env.DB, tenantId);
+    await c.env.DB.prepare(`
+      UPDATE tenant_settings SET webhook_url = ?, updated_at = ? WHERE tenant_id = ?
+    `).bind(url, new Date().toISOString(), tenantId).run();
+
+    console.log(`Webhook URL for tenant ${tenantId} ${url ? 'set' : 'cleared'}`);
+
+    return c.json({
+      success: true,
+      webhookUrl: url
+    });
+
+  } catch (error) {
+    console.error('Error updating webhook settings:', error);
+    return c.json({
+      success: false,
+      error: 'Internal server error'
+    }, 500);
+  }
+});
+
+// Replace the webhook signing secret
+app.post('/settings/webhook/rotate-secret', async (c) => {
+  try {
+    const tenantId = c.get('tenantId');
+    if (!tenantId) {
+      return c.json({
+        success: false,
+        error: 'Tenant API key required'
+      }, 403);
+    }
+
+    await ensureTenantSettings(c.env.DB, tenantId);
+
+    const webhookSecret = generateWebhookSecret();
+    await c.env.DB.prepare(`
+      UPDATE tenant_settings SET webhook_secret = ?, updated_at = ? WHERE tenant_id = ?
+    `).bind(webhookSecret, new Date().toISOString(), tenantId).run();
+
+    console.log(`Webhook secret rotated for tenant ${tenantId}`);
+
+    return c.json({
+      success: true,
+      webhookSecret
+    });
+
+  } catch (error) {
+    console.error('Error rotating webhook secret:', error);
+    return c.json({
+      success: false,
+      error: 'Internal server error'
+    }, 500);
+  }
+});
+
+// Create a recurring schedule: each tick of cronExpression (UTC) creates a task from the template
+app.post('/schedules', async (c) => {
+  try {
+    const body = await c.req.json();
+    const { name, cronExpression, type, vmName, payload = {}, priority = 'normal' } = body;
+
+    const validationError = validateSchedule({ cronExpression, type, vmName, payload, priority });
+    if (validationError) {
+      return c.json({
+        success: false,
+        error: validationError
+      }, 400);
+    }
+
+    const now = new Date();
+    const { vmName: _, ...template } = payload;
+    const schedule: VMSchedule = {
+      id: uuidv4(),
+      tenantId: c.get('tenantId'),
+      name,
+      cronExpression: cronExpression.trim(),
+      type,
+      vmName,
+      payload: template,
+      priority,
+      status: 'active',
+      nextRunAt: getNextCronRun(parseCronExpression(cronExpression)!, now)!.toISOString(),
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString()
+    };
+
+    await c.env.DB.prepare(`
+      INSERT INTO vm_schedules (
+        id, tenant_id, name, cron_expression, task_type, vm_name, payload, priority, status, next_run_at, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+    .bind(
+      schedule.id,
+      schedule.tenantId || null,
+      schedule.name || null,
+      schedule.cronExpression,
+      schedule.type,
+      schedule.vmName,
+      JSON.stringify(schedule.payload),
+      schedule.priority,
+      schedule.status,
+      schedule.nextRunAt,
+      schedule.createdAt,
+      schedule.updatedAt
+    )
+    .run();
+
+    console.log(`Schedule ${schedule.id} created: ${schedule.type} for VM ${schedule.vmName} at "${schedule.cronExpression}"`);
+
+    return c.json({
+      success: true,
+      schedule: await toScheduleResponse(c.env.DB, schedule)
+    }, 201);
+
+  } catch (error) {
+    console.error('Error creating schedule:', error);
+    return c.json({
+      success: false,
+      error: 'Internal server error'
+    }, 500);
+  }
+});
+
+// List schedules
+app.get('/schedules', async (c) => {
+  try {
+    const tenantId = c.get('tenantId');
+    const result = tenantId
+      ? await c.env.DB.prepare(`
+          SELECT * FROM vm_schedules WHERE tenant_id = ? ORDER BY created_at DESC
+        `).bind(tenantId).all()
+      : await c.env.DB.prepare(`
+          SELECT * FROM vm_schedules ORDER BY created_at DESC
+        `).all();
+
+    const schedules = await Promise.all(result.results.map(row => toScheduleResponse(c.env.DB, toSchedule(row))));
+
+    return c.json({
+      schedules,
+      count: schedules.length
+    });
+
+  } catch (error) {
+    console.error('Error listing schedules:', error);
+    return c.json({
+      success: false,
+      error: 'Internal server error'
+    }, 500);
+  }
+});
+
+// Get a schedule with its last and next run
+app.get('/schedules/:scheduleId', async (c) => {
+  try {
+    const schedule = await getSchedule(c.env.DB, c.req.param('scheduleId'), c.get('tenantId'));
+
+    if (!schedule) {
+      return c.json({
+        success: false,
+        error: 'Schedule not found'
+      }, 404);
+    }
+
+    return c.json({
+      success: true,
+      schedule: await toScheduleResponse(c.env.DB, schedule)
+    });
+
+  } catch (error) {
+    console.error('Error getting schedule:', error);
+    return c.json({
+      success: false,
+      error: 'Internal server error'
+    }, 500);
+  }
+});
+
+// Update a schedule's name, cron expression or task template
+app.put('/schedules/:scheduleId', async (c) => {
+  try {
+    const schedule = await getSchedule(c.env.DB, c.req.param('scheduleId'), c.get('tenantId'));
+
+    if (!schedule) {
+      return c.json({
+        success: false,
+        error: 'Schedule not found'
+      }, 404);
+    }
+
+    const body = await c.req.json();
+    const { vmName: _, ...template } = body.payload ?? schedule.payload;
+    const updated: VMSchedule = {
+      ...schedule,
+      name: body.name ?? schedule.name,
+      cronExpression: body.cronExpression ?? schedule.cronExpression,
+      type: body.type ?? schedule.type,
+      vmName: body.vmName ?? schedule.vmName,
+      payload: template,
+      priority: body.priority ?? schedule.priority,
+      updatedAt: new Date().toISOString()
+    };
+
+    const validationError = validateSchedule(updated);
+    if (validationError) {
+      return c.json({
+        success: false,
+        error: validationError
+      }, 400);
+    }
+
+    updated.cronExpression = updated.cronExpression.trim();
+    if (updated.status === 'active' && updated.cronExpression !== schedule.cronExpression) {
+      updated.nextRunAt = getNextCronRun(parseCronExpression(updated.cronExpression)!, new Date())!.toISOString();
+    }
+
+    await c.env.DB.prepare(`
+      UPDATE vm_schedules
+      SET name = ?, cron_expression = ?, task_type = ?, vm_name = ?, payload = ?, priority = ?, next_run_at = ?, updated_at = ?
+      WHERE id = ?
+    `)
+    .bind(
+      updated.name || null,
+      updated.cronExpression,
+      updated.type,
+      updated.vmName,
+      JSON.stringify(updated.payload),
+      updated.priority,
+      updated.nextRunAt || null,
+      updated.updatedAt,
+      updated.id
+    )
+    .run();
+
+    return c.json({
+      success: true,
+      schedule: await toScheduleResponse(c.env.DB, updated)
     });
 
   } catch (error) {
-    console.error('Error getting task status:', error);
+    console.error('Error updating schedule:', error);
     return c.json({
       success: false,
       error: 'Internal server error'
@@ -311,76 +3316,70 @@ app.get('/vm/tasks/:taskId/status', async (c) => {
   }
 });
 
-// List all tasks with pagination and filtering
-app.get('/vm/tasks', async (c) => {
+// Pause a schedule, no tasks are created until it is resumed
+app.post('/schedules/:scheduleId/pause', async (c) => {
   try {
-    const status = c.req.query('status'); // Filter by status
-    const vmName = c.req.query('vmName'); // Filter by VM name
-    const limit = parseInt(c.req.query('limit') || '50');
-    const offset = parseInt(c.req.query('offset') || '0');
-
-    let query = `
-      SELECT 
-        id, type, vm_name, status, created_at, updated_at, completed_at
-      FROM vm_tasks 
-    `;
-    const params: any[] = [];
-    const conditions: string[] = [];
+    const schedule = await getSchedule(c.env.DB, c.req.param('scheduleId'), c.get('tenantId'));
 
-    if (status) {
-      conditions.push('status = ?');
-      params.push(status);
+    if (!schedule) {
+      return c.json({
+        success: false,
+        error: 'Schedule not found'
+      }, 404);
     }
 
-    if (vmName) {
-      conditions.push('vm_name LIKE ?');
-      params.push(`%${vmName}%`);
-    }
+    await c.env.DB.prepare(`
+      UPDATE vm_schedules SET status = 'paused', next_run_at = NULL, updated_at = ? WHERE id = ?
+    `).bind(new Date().toISOString(), schedule.id).run();
 
-    if (conditions.length > 0) {
-      query += ' WHERE ' + conditions.join(' AND ');
-    }
+    console.log(`Schedule ${schedule.id} paused`);
 
-    query += ' ORDER BY created_at DESC LIMIT ? OFFSET ?';
-    params.push(limit, offset);
+    return c.json({
+      success: true,
+      message: 'Schedule paused',
+      scheduleId: schedule.id,
+      status: 'paused'
+    });
 
-    const result = await c.env.DB.prepare(query).bind(...params).all();
+  } catch (error) {
+    console.error('Error pausing schedule:', error);
+    return c.json({
+      success: false,
+      error: 'Internal server error'
+    }, 500);
+  }
+});
 
-    const tasks = result.results.map(row => ({
-      id: row.id,
-      type: row.type,
-      status: row.status,
-      vmName: row.vm_name,
-      createdAt: row.created_at,
-      updatedAt: row.updated_at,
-      completedAt: row.completed_at
-    }));
+// Resume a paused schedule from its next tick, runs missed while paused are skipped
+app.post('/schedules/:scheduleId/resume', async (c) => {
+  try {
+    const schedule = await getSchedule(c.env.DB, c.req.param('scheduleId'), c.get('tenantId'));
 
-    // Get total count for pagination
-    let countQuery = 'SELECT COUNT(*) as total FROM vm_tasks';
-    const countParams: any[] = [];
-    
-    if (conditions.length > 0) {
-      countQuery += ' WHERE ' + conditions.join(' AND ');
-      countParams.push(...params.slice(0, -2)); // Exclude limit and offset
+    if (!schedule) {
+      return c.json({
+        success: false,
+        error: 'Schedule not found'
+      }, 404);
     }
 
-    const countResult = await c.env.DB.prepare(countQuery).bind(...countParams).first();
-    const totalCount = Number(countResult?.total) || 0;
+    const nextRunAt = getNextCronRun(parseCronExpression(schedule.cronExpression)!, new Date());
+
+    await c.env.DB.prepare(`
+      UPDATE vm_schedules SET status = 'active', next_run_at = ?, updated_at = ? WHERE id = ?
+    `).bind(nextRunAt?.toISOString() || null, new Date().toISOString(), schedule.id).run();
+
+    console.log(`Schedule ${schedule.id} resumed`);
 
     return c.json({
-      tasks,
-      count: tasks.length,
-      totalCount,
-      pagination: {
-        limit,
-        offset,
-        hasMore: offset + limit < totalCount
-      }
+      success: true,
+      message: 'Schedule resumed',
+      scheduleId: schedule.id,
+      status: 'active',
+      nextRunAt: nextRunAt?.toISOString() || null
     });
 
   } catch (error) {
-    console.error('Error listing tasks:', error);
+    console.error('Error resuming schedule:', error);
     return c.json({
       success: false,
       error: 'Internal server error'
@@ -388,45 +3387,29 @@ app.get('/vm/tasks', async (c) => {
   }
 });
 
-// Update task status (called by consumer/local consumer)
-app.put('/vm/tasks/:taskId/status', async (c) => {
+// Delete a schedule, tasks it already created are kept
+app.delete('/schedules/:scheduleId', async (c) => {
   try {
-    const taskId = c.req.param('taskId');
-    const body = await c.req.json();
-    const { status, error, result } = body;
+    const schedule = await getSchedule(c.env.DB, c.req.param('scheduleId'), c.get('tenantId'));
 
-    const updated = await updateTaskStatus(c.env.DB, taskId, status, error, result);
-    
-    if (!updated) {
+    if (!schedule) {
       return c.json({
         success: false,
-        error: 'Task not found'
+        error: 'Schedule not found'
       }, 404);
     }
 
-    // If task completed with VM info, update VMs table
-    if (status === 'completed' && result && result.subdomain) {
-      await upsertVM(c.env.DB, {
-        name: result.vmName,
-        ipAddress: result.ip,
-        status: 'running',
-        subdomain: result.subdomain,
-        port: 8080,
-        metadata: result
-      });
-    }
+    await c.env.DB.prepare('DELETE FROM vm_schedules WHERE id = ?').bind(schedule.id).run();
 
-    console.log(`Task ${taskId} status updated to: ${status}`);
+    console.log(`Schedule ${schedule.id} deleted`);
 
     return c.json({
       success: true,
-      message: `Task marked as ${status}`,
-      taskId,
-      status
+      message: 'Schedule deleted successfully'
     });
 
   } catch (error) {
-    console.error('Error updating task status:', error);
+    console.error('Error deleting schedule:', error);
     return c.json({
       success: false,
       error: 'Internal server error'
@@ -434,37 +3417,70 @@ app.put('/vm/tasks/:taskId/status', async (c) => {
   }
 });
 
-// Cancel a pending task
-app.delete('/vm/tasks/:taskId', async (c) => {
+// Report a host's VMs and tunnel ingress from a local consumer, returns the drift found.
+// With repair the vms table is updated, the consumer removes orphaned ingress rules itself.
+app.post('/admin/reconcile', async (c) => {
   try {
-    const taskId = c.req.param('taskId');
-    const task = await getTask(c.env.DB, taskId);
-    
-    if (!task) {
+    const body = await c.req.json();
+    const server = body.server || 'default';
+    const repair = body.repair === true;
+
+    if (typeof server !== 'string') {
       return c.json({
         success: false,
-        error: 'Task not found'
-      }, 404);
+        error: 'server must be a string'
+      }, 400);
     }
-    
-    if (task.status !== 'pending') {
+
+    if (!Array.isArray(body.vms) || body.vms.some((vm: any) => typeof vm?.name !== 'string' || typeof vm?.status !== 'string')) {
       return c.json({
         success: false,
-        error: `Cannot cancel task with status: ${task.status}`
+        error: 'vms must be an array of { name, status }'
       }, 400);
     }
 
-    // Mark as cancelled
-    await updateTaskStatus(c.env.DB, taskId, 'failed', 'Task cancelled by user');
+    const ingress = body.ingress ?? [];
+    if (!Array.isArray(ingress) || ingress.some((hostname: any) => typeof hostname !== 'string')) {
+      return c.json({
+        success: false,
+        error: 'ingress must be an array of hostnames'
+      }, 400);
+    }
+
+    const report = await buildDriftReport(c.env, server, body.vms, ingress);
+
+    if (repair) {
+      await repairDrift(c.env, report);
+    }
+
+    const reportedAt = new Date().toISOString();
+    await c.env.DB.prepare(`
+      INSERT INTO vm_reconciliations (server, consumer_id, report, repaired, reported_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(server) DO UPDATE SET
+        consumer_id = excluded.consumer_id,
+        report = excluded.report,
+        repaired = excluded.repaired,
+        reported_at = excluded.reported_at
+    `).bind(server, body.consumerId || null, JSON.stringify(report), repair ? 1 : 0, reportedAt).run();
+
+    const driftCount = report.missing.length + report.untracked.length +
+      report.statusMismatches.length + report.orphanedIngress.length;
+    if (driftCount > 0) {
+      console.log(`Drift on server ${server}: ${report.missing.length} missing, ${report.untracked.length} untracked, ` +
+        `${report.statusMismatches.length} status mismatches, ${report.orphanedIngress.length} orphaned ingress rules` +
+        (repair ? ' (repaired)' : ''));
+    }
 
     return c.json({
       success: true,
-      message: 'Task cancelled successfully',
-      taskId
+      ...report,
+      repaired: repair,
+      reportedAt
     });
 
   } catch (error) {
-    console.error('Error cancelling task:', error);
+    console.error('Error reconciling VMs:', error);
     return c.json({
       success: false,
       error: 'Internal server error'
@@ -472,35 +3488,27 @@ app.delete('/vm/tasks/:taskId', async (c) => {
   }
 });
 
-// Get VM status and info
-app.get('/vm/:vmName/status', async (c) => {
+// Latest drift report of each server
+app.get('/admin/reconcile', async (c) => {
   try {
-    const vmName = c.req.param('vmName');
-    const vm = await getVM(c.env.DB, vmName);
-    
-    if (!vm) {
-      return c.json({
-        success: false,
-        error: 'VM not found',
-        vmName
-      }, 404);
-    }
+    const result = await c.env.DB.prepare(`
+      SELECT * FROM vm_reconciliations ORDER BY server
+    `).all();
+
+    const reports = result.results.map(row => ({
+      ...JSON.parse(row.report as string) as DriftReport,
+      consumerId: row.consumer_id,
+      repaired: row.repaired === 1,
+      reportedAt: row.reported_at
+    }));
 
     return c.json({
-      success: true,
-      vmName: vm.name,
-      status: vm.status,
-      ipAddress: vm.ipAddress,
-      subdomain: vm.subdomain,
-      port: vm.port,
-      url: vm.subdomain ? `https://${vm.subdomain}` : null,
-      createdAt: vm.createdAt,
-      updatedAt: vm.updatedAt,
-      metadata: vm.metadata
+      reports,
+      count: reports.length
     });
 
   } catch (error) {
-    console.error('Error getting VM status:', error);
+    console.error('Error listing drift reports:', error);
     return c.json({
       success: false,
       error: 'Internal server error'
@@ -508,46 +3516,37 @@ app.get('/vm/:vmName/status', async (c) => {
   }
 });
 
-// List all VMs
-app.get('/vms', async (c) => {
+// Create an API key for a tenant (the plain key is only returned once)
+app.post('/admin/api-keys', async (c) => {
   try {
-    const status = c.req.query('status');
-    const limit = parseInt(c.req.query('limit') || '50');
-    const offset = parseInt(c.req.query('offset') || '0');
-
-    let query = 'SELECT * FROM vms';
-    const params: any[] = [];
+    const body = await c.req.json();
+    const { tenantId, name } = body;
 
-    if (status) {
-      query += ' WHERE status = ?';
-      params.push(status);
+    if (!tenantId || typeof tenantId !== 'string') {
+      return c.json({
+        success: false,
+        error: 'Missing required field: tenantId'
+      }, 400);
     }
 
-    query += ' ORDER BY created_at DESC LIMIT ? OFFSET ?';
-    params.push(limit, offset);
+    if (byteLength(tenantId) > MAX_TENANT_ID_BYTES) {
+      return c.json({
+        success: false,
+        error: `tenantId must be at most ${MAX_TENANT_ID_BYTES} bytes`
+      }, 400);
+    }
 
-    const result = await c.env.DB.prepare(query).bind(...params).all();
+    const apiKey = await createApiKey(c.env.DB, tenantId, name);
 
-    const vms = result.results.map(row => ({
-      id: row.id,
-      name: row.name,
-      ipAddress: row.ip_address,
-      status: row.status,
-      subdomain: row.subdomain,
-      port: row.port,
-      url: row.subdomain ? `https://${row.subdomain}` : null,
-      createdAt: row.created_at,
-      updatedAt: row.updated_at,
-      metadata: row.metadata ? JSON.parse(row.metadata as string) : undefined
-    }));
+    console.log(`API key ${apiKey.id} created for tenant: ${tenantId}`);
 
     return c.json({
-      vms,
-      count: vms.length
-    });
+      success: true,
+      apiKey
+    }, 201);
 
   } catch (error) {
-    console.error('Error listing VMs:', error);
+    console.error('Error creating API key:', error);
     return c.json({
       success: false,
       error: 'Internal server error'
@@ -555,27 +3554,43 @@ app.get('/vms', async (c) => {
   }
 });
 
-// Delete VM record
-app.delete('/vm/:vmName', async (c) => {
+// List API keys (optionally for a single tenant)
+app.get('/admin/api-keys', async (c) => {
   try {
-    const vmName = c.req.param('vmName');
-    const deleted = await deleteVM(c.env.DB, vmName);
-    
-    if (!deleted) {
-      return c.json({
-        success: false,
-        error: 'VM not found'
-      }, 404);
+    const tenantId = c.req.query('tenantId');
+
+    let query = `
+      SELECT id, tenant_id, name, key_prefix, created_at, last_used_at, revoked_at
+      FROM api_keys
+    `;
+    const params: any[] = [];
+
+    if (tenantId) {
+      query += ' WHERE tenant_id = ?';
+      params.push(tenantId);
     }
 
+    query += ' ORDER BY created_at DESC';
+
+    const result = await c.env.DB.prepare(query).bind(...params).all();
+
+    const apiKeys: ApiKey[] = result.results.map(row => ({
+      id: row.id as string,
+      tenantId: row.tenant_id as string,
+      name: row.name as string,
+      keyPrefix: row.key_prefix as string,
+      createdAt: row.created_at as string,
+      lastUsedAt: row.last_used_at as string,
+      revokedAt: row.revoked_at as string
+    }));
+
     return c.json({
-      success: true,
-      message: 'VM record deleted successfully',
-      vmName
+      apiKeys,
+      count: apiKeys.length
     });
 
   } catch (error) {
-    console.error('Error deleting VM:', error);
+    console.error('Error listing API keys:', error);
     return c.json({
       success: false,
       error: 'Internal server error'
@@ -583,55 +3598,32 @@ app.delete('/vm/:vmName', async (c) => {
   }
 });
 
-// Get dashboard statistics
-app.get('/stats', async (c) => {
+// Revoke an API key
+app.delete('/admin/api-keys/:keyId', async (c) => {
   try {
-    const [taskStats, vmStats] = await Promise.all([
-      c.env.DB.prepare(`
-        SELECT 
-          status,
-          COUNT(*) as count
-        FROM vm_tasks 
-        GROUP BY status
-      `).all(),
-      c.env.DB.prepare(`
-        SELECT 
-          status,
-          COUNT(*) as count
-        FROM vms 
-        GROUP BY status
-      `).all()
-    ]);
+    const keyId = c.req.param('keyId');
 
-    const taskCounts = taskStats.results.reduce((acc, row) => {
-      acc[row.status as string] = row.count;
-      return acc;
-    }, {} as Record<string, number>);
+    const result = await c.env.DB.prepare(`
+      UPDATE api_keys SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL
+    `).bind(new Date().toISOString(), keyId).run();
 
-    const vmCounts = vmStats.results.reduce((acc, row) => {
-      acc[row.status as string] = row.count;
-      return acc;
-    }, {} as Record<string, number>);
+    if (result.meta.changes === 0) {
+      return c.json({
+        success: false,
+        error: 'API key not found or already revoked'
+      }, 404);
+    }
+
+    console.log(`API key ${keyId} revoked`);
 
     return c.json({
-      tasks: {
-        pending: taskCounts.pending || 0,
-        processing: taskCounts.processing || 0,
-        completed: taskCounts.completed || 0,
-        failed: taskCounts.failed || 0,
-        total: Object.values(taskCounts).reduce((sum: number, count) => sum + (count as number), 0)
-      },
-      vms: {
-        running: vmCounts.running || 0,
-        stopped: vmCounts.stopped || 0,
-        unknown: vmCounts.unknown || 0,
-        total: Object.values(vmCounts).reduce((sum: number, count) => sum + (count as number), 0)
-      },
-      timestamp: new Date().toISOString()
+      success: true,
+      message: 'API key revoked successfully',
+      keyId
     });
 
   } catch (error) {
-    console.error('Error getting stats:', error);
+    console.error('Error revoking API key:', error);
     return c.json({
       success: false,
       error: 'Internal server error'
@@ -651,14 +3643,54 @@ app.get('/', (c) => {
       createTask: 'POST /vm/tasks',
       getTaskStatus: 'GET /vm/tasks/:taskId/status',
       listTasks: 'GET /vm/tasks',
+      streamTask: 'GET /vm/tasks/:taskId/stream',
+      streamTasks: 'GET /vm/tasks/stream',
       updateTaskStatus: 'PUT /vm/tasks/:taskId/status',
+      recordTaskEvent: 'POST /vm/tasks/:taskId/events',
+      recordTaskPlacement: 'PUT /vm/tasks/:taskId/placement',
+      getTaskEvents: 'GET /vm/tasks/:taskId/events',
+      retryTask: 'POST /vm/tasks/:taskId/retry',
+      listDeadLettered: 'GET /vm/tasks/dead-lettered',
+      listScheduled: 'GET /vm/tasks/scheduled',
+      rescheduleTask: 'PUT /vm/tasks/:taskId/schedule',
+      replayTask: 'POST /vm/tasks/:taskId/replay',
       cancelTask: 'DELETE /vm/tasks/:taskId',
       getVMStatus: 'GET /vm/:vmName/status',
+      extendVM: 'POST /vm/:vmName/extend',
       listVMs: 'GET /vms',
       deleteVM: 'DELETE /vm/:vmName',
-      getStats: 'GET /stats'
+      getStats: 'GET /stats',
+      listTaskWebhooks: 'GET /vm/tasks/:taskId/webhooks',
+      getWebhookSettings: 'GET /settings/webhook',
+      updateWebhookSettings: 'PUT /settings/webhook',
+      rotateWebhookSecret: 'POST /settings/webhook/rotate-secret',
+      createSchedule: 'POST /schedules',
+      listSchedules: 'GET /schedules',
+      getSchedule: 'GET /schedules/:scheduleId',
+      updateSchedule: 'PUT /schedules/:scheduleId',
+      pauseSchedule: 'POST /schedules/:scheduleId/pause',
+      resumeSchedule: 'POST /schedules/:scheduleId/resume',
+      deleteSchedule: 'DELETE /schedules/:scheduleId',
+      createApiKey: 'POST /admin/api-keys',
+      listApiKeys: 'GET /admin/api-keys',
+      revokeApiKey: 'DELETE /admin/api-keys/:keyId',
+      reportDrift: 'POST /admin/reconcile',
+      listDriftReports: 'GET /admin/reconcile'
     }
   });
 });
 
-export default app;
\ No newline at end of file
+// Export queue handler and default app
+export default {
+  fetch: app.fetch,
+  async queue(batch: MessageBatch<WebhookQueueMessage>, env: Bindings): Promise<void> {
+    if (batch.queue === WEBHOOK_QUEUE_NAME) {
+      await handleWebhookMessage(batch, env);
+    }
+  },
+  async scheduled(controller: ScheduledController, env: Bindings, ctx: ExecutionContext): Promise<void> {
+    ctx.waitUntil(enqueueDueTasks(env));
+    ctx.waitUntil(runDueSchedules(env));
+    ctx.waitUntil(expireVMs(env));
+  }
+};
\ No newline at end of file
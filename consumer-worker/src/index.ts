@@ -1,19 +1,39 @@
 import { Hono } from 'hono';
 import { cors } from 'hono/cors';
+import { DurableObject } from 'cloudflare:workers';
 
 type Bindings = {
   TASK_BUFFER: KVNamespace;
   VM_TASK_QUEUE: Queue;
+  TASK_CLAIMS: DurableObjectNamespace<TaskClaim>;
+  VM_SEQUENCERS: DurableObjectNamespace<VMSequencer>;
+  API_WORKER: Fetcher;
+  API_WORKER_KEY: string;
+  LEASE_DURATION_SECONDS?: string;
+  CONSUMER_STALE_SECONDS?: string;
+  TENANT_MAX_IN_FLIGHT?: string;
+  PRIORITY_AGING_MINUTES?: string;
 };
 
+type TaskPriority = 'low' | 'normal' | 'high' | 'urgent';
+
 interface QueueMessage {
   taskId: string;
-  type: 'launch_vm' | 'delete_vm';
+  type: 'launch_vm' | 'delete_vm' | 'stop_vm' | 'pause_vm' | 'snapshot_vm' | 'run_command';
   payload: {
     vmName: string;
     vmConfig?: any;
     arrakisConfig?: any;
+    targetServer?: string;
+    snapshotId?: string;
+    command?: string;
+    blocking?: boolean;
   };
+  priority?: TaskPriority;
+  tenantId?: string | null;
+  // Per-VM submission order
+  sequence?: number;
+  // When the task became runnable, priorities age from it
   timestamp: string;
 }
 
@@ -21,11 +41,552 @@ interface TaskBuffer {
   id: string;
   type: string;
   payload: any;
+  priority: TaskPriority;
+  tenantId: string | null;
+  // Dispatch time from the queue message, not the task's creation in D1
   createdAt: string;
   receivedAt: string;
   claimedAt?: string;
   claimedBy?: string;
+  leaseExpiresAt?: string;
+  attempts: number;
   status: 'ready' | 'claimed' | 'processing';
+  // Set while a launch waits for a host with enough free resources
+  placementError?: string;
+}
+
+// Kept in the KV key metadata of buffer entries, so listings and stats don't read every value
+interface BufferMetadata {
+  id: string;
+  type: string;
+  vmName: string;
+  targetServer: string;
+  priority: TaskPriority;
+  tenantId: string | null;
+  status: TaskBuffer['status'];
+  createdAt: string;
+  receivedAt: string;
+  claimedBy?: string;
+  leaseExpiresAt?: string;
+  placementPending?: boolean;
+}
+
+interface ClaimRecord {
+  claimedBy: string;
+  claimedAt: string;
+  leaseExpiresAt: string;
+}
+
+interface ConsumerCapacity {
+  maxConcurrentTasks: number;
+}
+
+// Free resources of the consumer's Arrakis host
+interface HostResources {
+  memoryMb: number;
+  vcpus: number;
+  diskMb: number;
+}
+
+interface ConsumerRecord {
+  consumerId: string;
+  hostname: string;
+  version: string;
+  targetServer: string;
+  arrakisUrl: string;
+  capacity: ConsumerCapacity;
+  resources?: HostResources;
+  registeredAt: string;
+  lastSeenAt: string;
+}
+
+type ClaimResult =
+  | { success: true; claim: ClaimRecord }
+  | { success: false; claim: ClaimRecord | null };
+
+const DEFAULT_LEASE_DURATION_SECONDS = 120;
+
+const QUEUE_NAME = 'vm-task-queue';
+const DEAD_LETTER_QUEUE_NAME = 'vm-task-dlq';
+
+// Tasks without a specific target can run on any host
+const DEFAULT_TARGET_SERVER = 'default';
+
+// Placement copies a consumer's target server into buffer metadata (max 1024 bytes),
+// same limit as the API worker applies to task payloads
+const MAX_TARGET_SERVER_BYTES = 64;
+// Claims store the consumer ID in the same metadata
+const MAX_CONSUMER_ID_BYTES = 64;
+
+function isValidConsumerId(consumerId: unknown): consumerId is string {
+  return typeof consumerId === 'string' && consumerId !== '' &&
+    new TextEncoder().encode(consumerId).length <= MAX_CONSUMER_ID_BYTES;
+}
+
+// Upper bound for a POST /tasks/next long-poll, and how often it looks for new tasks meanwhile
+const MAX_CLAIM_WAIT_SECONDS = 25;
+const CLAIM_POLL_INTERVAL_MS = 2000;
+
+const PRIORITY_RANK: Record<TaskPriority, number> = { low: 0, normal: 1, high: 2, urgent: 3 };
+
+// A waiting task gains one priority level per this many minutes, so low priority work isn't starved
+const DEFAULT_PRIORITY_AGING_MINUTES = 10;
+// Tasks a single tenant may have claimed at once, so one tenant's backlog can't take every consumer
+const DEFAULT_TENANT_MAX_IN_FLIGHT = 10;
+
+// A consumer is flagged as stale when it missed heartbeats for this long
+const DEFAULT_CONSUMER_STALE_SECONDS = 90;
+// Consumers that stopped without deregistering drop out of the registry after a day
+const CONSUMER_RECORD_TTL_SECONDS = 24 * 60 * 60;
+
+// Claim records are kept this long after a claim, then garbage collected
+const CLAIM_RECORD_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * One instance per task (addressed by task ID). The TASK_BUFFER KV entry is
+ * only an eventually-consistent listing; this object is the single source of
+ * truth for who owns a task, so concurrent claims are serialized and exactly
+ * one consumer wins.
+ */
+export class TaskClaim extends DurableObject<Bindings> {
+  async claim(consumerId: string, leaseMs: number): Promise<ClaimResult> {
+    const existing = await this.ctx.storage.get<ClaimRecord>('claim');
+    if (existing) {
+      return { success: false, claim: existing };
+    }
+
+    const now = Date.now();
+    const claim: ClaimRecord = {
+      claimedBy: consumerId,
+      claimedAt: new Date(now).toISOString(),
+      leaseExpiresAt: new Date(now + leaseMs).toISOString()
+    };
+
+    await this.ctx.storage.put('claim', claim);
+    await this.ctx.storage.setAlarm(now + CLAIM_RECORD_TTL_MS);
+
+    return { success: true, claim };
+  }
+
+  // Extend the lease, only the consumer holding the claim may do so
+  async heartbeat(consumerId: string, leaseMs: number): Promise<ClaimResult> {
+    const existing = await this.ctx.storage.get<ClaimRecord>('claim');
+    if (!existing || existing.claimedBy !== consumerId) {
+      return { success: false, claim: existing || null };
+    }
+
+    const now = Date.now();
+    const claim: ClaimRecord = {
+      ...existing,
+      leaseExpiresAt: new Date(now + leaseMs).toISOString()
+    };
+
+    await this.ctx.storage.put('claim', claim);
+    await this.ctx.storage.setAlarm(now + CLAIM_RECORD_TTL_MS);
+
+    return { success: true, claim };
+  }
+
+  // Drop the claim if its lease has run out, returns the expired claim
+  async reclaimIfExpired(): Promise<ClaimRecord | null> {
+    const existing = await this.ctx.storage.get<ClaimRecord>('claim');
+    if (!existing || new Date(existing.leaseExpiresAt).getTime() > Date.now()) {
+      return null;
+    }
+
+    await this.release();
+    return existing;
+  }
+
+  async release(): Promise<void> {
+    await this.ctx.storage.deleteAlarm();
+    await this.ctx.storage.deleteAll();
+  }
+
+  async alarm(): Promise<void> {
+    await this.ctx.storage.deleteAll();
+  }
+}
+
+interface LaneEntry {
+  taskId: string;
+  // Per-VM submission order assigned by the API worker
+  sequence: number;
+  addedAt: number;
+  // Set once the task was claimed, nothing may be lined up ahead of it anymore
+  started?: boolean;
+  // Set while a failed attempt waits for its retry to be delivered
+  waitingSince?: number;
+}
+
+// Lane entries older than this are dropped so a lost task can't block its VM forever
+const LANE_ENTRY_TTL_MS = 6 * 60 * 60 * 1000;
+
+// A lane head without a buffer entry is dropped after this long (the buffer write follows
+// the lane entry and key listings may lag), or after the retry wait when an attempt is retried
+const STALE_HEAD_GRACE_MS = 5 * 60 * 1000;
+const RETRY_WAIT_GRACE_MS = 60 * 60 * 1000;
+
+// Buffer entries expire this long after they are written unless claimed
+const BUFFER_TTL_SECONDS = 3600;
+// Held back tasks get a fresh TTL when less than this is left
+const BUFFER_REFRESH_BEFORE_SECONDS = 30 * 60;
+
+/**
+ * One instance per VM name. Keeps the tasks for the VM in submission order
+ * so that only the oldest unfinished one can be claimed; later tasks are
+ * held back until it is done, whichever local consumer runs them.
+ */
+export class VMSequencer extends DurableObject<Bindings> {
+  async enqueue(taskId: string, sequence: number): Promise<void> {
+    const lane = await this.getLane();
+    const existing = lane.find(entry => entry.taskId === taskId);
+    if (existing) {
+      // The retry of a failed attempt arrived
+      if (existing.waitingSince) {
+        delete existing.waitingSince;
+        await this.ctx.storage.put('lane', lane);
+      }
+      return;
+    }
+
+    // Late arrivals (queue retries, delayed tasks, replays) take their place by sequence,
+    // but never ahead of a task that already started
+    const firstUnstarted = lane.findIndex(entry => !entry.started);
+    const start = firstUnstarted === -1 ? lane.length : firstUnstarted;
+    const later = lane.findIndex((entry, index) => index >= start && entry.sequence > sequence);
+
+    lane.splice(later === -1 ? lane.length : later, 0, { taskId, sequence, addedAt: Date.now() });
+
+    await this.ctx.storage.put('lane', lane);
+  }
+
+  // The task currently allowed to run on this VM
+  async head(): Promise<string | null> {
+    const lane = await this.getLane();
+    return lane.length > 0 ? lane[0].taskId : null;
+  }
+
+  // Pin the task at the head of the lane before it is claimed, returns the current head
+  async start(taskId: string): Promise<string | null> {
+    const lane = await this.getLane();
+    if (lane.length === 0) return null;
+
+    if (lane[0].taskId === taskId && !lane[0].started) {
+      lane[0].started = true;
+      await this.ctx.storage.put('lane', lane);
+    }
+
+    return lane[0].taskId;
+  }
+
+  // The task's attempt failed and will be delivered again, it keeps its place meanwhile
+  async awaitRetry(taskId: string): Promise<void> {
+    const lane = await this.getLane();
+    const entry = lane.find(entry => entry.taskId === taskId);
+    if (!entry) return;
+
+    entry.waitingSince = Date.now();
+    await this.ctx.storage.put('lane', lane);
+  }
+
+  // Drop the head if it is still the given task and has been gone from the buffer for
+  // longer than the grace period, returns whether it was dropped
+  async dropStaleHead(taskId: string): Promise<boolean> {
+    const lane = await this.getLane();
+    const head = lane[0];
+    if (!head || head.taskId !== taskId) return false;
+
+    const since = head.waitingSince ?? head.addedAt;
+    const grace = head.waitingSince ? RETRY_WAIT_GRACE_MS : STALE_HEAD_GRACE_MS;
+    if (Date.now() - since < grace) return false;
+
+    await this.complete(taskId);
+    return true;
+  }
+
+  async complete(taskId: string): Promise<void> {
+    const lane = await this.getLane();
+    const remaining = lane.filter(entry => entry.taskId !== taskId);
+
+    if (remaining.length === 0) {
+      await this.ctx.storage.deleteAll();
+    } else if (remaining.length !== lane.length) {
+      await this.ctx.storage.put('lane', remaining);
+    }
+  }
+
+  private async getLane(): Promise<LaneEntry[]> {
+    const lane = await this.ctx.storage.get<LaneEntry[]>('lane') || [];
+    const cutoff = Date.now() - LANE_ENTRY_TTL_MS;
+    const live = lane.filter(entry => entry.addedAt > cutoff);
+
+    if (live.length !== lane.length) {
+      console.log(`Dropped ${lane.length - live.length} expired lane entries`);
+      await this.ctx.storage.put('lane', live);
+    }
+
+    return live;
+  }
+}
+
+function getVMSequencer(env: Bindings, vmName: string) {
+  return env.VM_SEQUENCERS.get(env.VM_SEQUENCERS.idFromName(vmName));
+}
+
+function getTaskClaim(env: Bindings, taskId: string) {
+  return env.TASK_CLAIMS.get(env.TASK_CLAIMS.idFromName(taskId));
+}
+
+// Whether a local consumer for the given server may run the task
+function servesTask(task: BufferMetadata, server: string): boolean {
+  if (task.placementPending) return false;
+
+  return task.targetServer === DEFAULT_TARGET_SERVER || task.targetServer === server;
+}
+
+function toBufferMetadata(task: TaskBuffer): BufferMetadata {
+  return {
+    id: task.id,
+    type: task.type,
+    vmName: task.payload.vmName,
+    targetServer: task.payload.targetServer || DEFAULT_TARGET_SERVER,
+    priority: task.priority || 'normal',
+    tenantId: task.tenantId || null,
+    status: task.status,
+    createdAt: task.createdAt,
+    receivedAt: task.receivedAt,
+    ...(task.claimedBy && { claimedBy: task.claimedBy }),
+    ...(task.leaseExpiresAt && { leaseExpiresAt: task.leaseExpiresAt }),
+    ...(task.placementError && { placementPending: true })
+  };
+}
+
+// Write a buffer entry together with its listing metadata
+async function putBufferedTask(env: Bindings, task: TaskBuffer, expirationTtl?: number): Promise<void> {
+  await env.TASK_BUFFER.put(`buffer:${task.id}`, JSON.stringify(task), {
+    metadata: toBufferMetadata(task),
+    ...(expirationTtl && { expirationTtl })
+  });
+}
+
+// List every key under a prefix, following the list cursor past the 1000 keys of a page
+async function listAllKeys<Metadata = unknown>(env: Bindings, prefix: string): Promise<KVNamespaceListKey<Metadata>[]> {
+  const keys: KVNamespaceListKey<Metadata>[] = [];
+  let cursor: string | undefined;
+
+  while (true) {
+    const page: KVNamespaceListResult<Metadata> = await env.TASK_BUFFER.list<Metadata>({ prefix, cursor });
+    keys.push(...page.keys);
+    if (page.list_complete) break;
+    cursor = page.cursor;
+  }
+
+  return keys;
+}
+
+// Metadata of every buffered task. Entries written without metadata are read once instead.
+async function listBufferedTasks(env: Bindings): Promise<BufferMetadata[]> {
+  const keys = await listAllKeys<BufferMetadata>(env, 'buffer:');
+
+  const tasks = await Promise.all(keys.map(async key => {
+    if (key.metadata) return key.metadata;
+
+    const taskJson = await env.TASK_BUFFER.get(key.name);
+    return taskJson ? toBufferMetadata(JSON.parse(taskJson)) : null;
+  }));
+
+  return tasks.filter((task): task is BufferMetadata => task !== null);
+}
+
+// Priority rank after aging, capped at the highest level
+function getEffectivePriority(env: Bindings, task: BufferMetadata, now: number): number {
+  const minutes = parseInt(env.PRIORITY_AGING_MINUTES || '');
+  const agingMs = (minutes > 0 ? minutes : DEFAULT_PRIORITY_AGING_MINUTES) * 60 * 1000;
+  const waitedMs = Math.max(0, now - new Date(task.createdAt).getTime());
+
+  return Math.min(PRIORITY_RANK[task.priority || 'normal'] + Math.floor(waitedMs / agingMs), PRIORITY_RANK.urgent);
+}
+
+function getTenantMaxInFlight(env: Bindings): number {
+  const limit = parseInt(env.TENANT_MAX_IN_FLIGHT || '');
+  return limit > 0 ? limit : DEFAULT_TENANT_MAX_IN_FLIGHT;
+}
+
+function getConsumerStaleMs(env: Bindings): number {
+  const seconds = parseInt(env.CONSUMER_STALE_SECONDS || '');
+  return (seconds > 0 ? seconds : DEFAULT_CONSUMER_STALE_SECONDS) * 1000;
+}
+
+function getLeaseMs(env: Bindings): number {
+  const seconds = parseInt(env.LEASE_DURATION_SECONDS || '');
+  return (seconds > 0 ? seconds : DEFAULT_LEASE_DURATION_SECONDS) * 1000;
+}
+
+function parseHostResources(resources: any): HostResources | undefined {
+  if (!resources || typeof resources !== 'object') return undefined;
+
+  return {
+    memoryMb: Math.max(0, Number(resources.memoryMb) || 0),
+    vcpus: Math.max(0, Number(resources.vcpus) || 0),
+    diskMb: Math.max(0, Number(resources.diskMb) || 0)
+  };
+}
+
+// Parse sizes like "2G", "512M" or 1024 (plain numbers are MB) into MB
+function parseSizeMb(value: unknown): number {
+  if (typeof value === 'number') return value > 0 ? value : 0;
+  if (typeof value !== 'string') return 0;
+
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([KMGT])?(?:i?B)?$/i);
+  if (!match) return 0;
+
+  const units: Record<string, number> = { K: 1 / 1024, M: 1, G: 1024, T: 1024 * 1024 };
+  return parseFloat(match[1]) * units[(match[2] || 'M').toUpperCase()];
+}
+
+// Resources a launch_vm asks for in its vmConfig
+function getRequiredResources(task: TaskBuffer): HostResources {
+  const vmConfig = task.payload.vmConfig || {};
+  return {
+    memoryMb: parseSizeMb(vmConfig.memory),
+    vcpus: Math.max(0, Number(vmConfig.vcpus) || 0),
+    diskMb: parseSizeMb(vmConfig.diskSize)
+  };
+}
+
+// Launches without a targetServer are placed by the scheduler
+function needsPlacement(task: TaskBuffer): boolean {
+  return task.type === 'launch_vm' && (task.payload.targetServer || DEFAULT_TARGET_SERVER) === DEFAULT_TARGET_SERVER;
+}
+
+// Pick the host with the most free memory that fits the launch, and pin the task to it.
+// Without any consumer reporting resources for a specific server, the task stays untargeted.
+async function placeTask(env: Bindings, task: TaskBuffer): Promise<void> {
+  const keys = await listAllKeys(env, 'consumer:');
+  const staleMs = getConsumerStaleMs(env);
+  const now = Date.now();
+
+  // Latest report per server, from consumers that are still alive
+  const hosts = new Map<string, ConsumerRecord>();
+  for (const key of keys) {
+    const consumerJson = await env.TASK_BUFFER.get(key.name);
+    if (!consumerJson) continue;
+
+    const consumer: ConsumerRecord = JSON.parse(consumerJson);
+    if (!consumer.resources || consumer.targetServer === DEFAULT_TARGET_SERVER) continue;
+    if (now - new Date(consumer.lastSeenAt).getTime() > staleMs) continue;
+
+    const known = hosts.get(consumer.targetServer);
+    if (!known || known.lastSeenAt < consumer.lastSeenAt) {
+      hosts.set(consumer.targetServer, consumer);
+    }
+  }
+
+  if (hosts.size === 0) {
+    delete task.placementError;
+    return;
+  }
+
+  const required = getRequiredResources(task);
+  const fits = [...hosts.values()].filter(({ resources }) =>
+    resources!.memoryMb >= required.memoryMb &&
+    resources!.vcpus >= required.vcpus &&
+    resources!.diskMb >= required.diskMb
+  );
+
+  if (fits.length === 0) {
+    const placementError = `Insufficient capacity: no host has ${required.memoryMb}MB memory, ${required.vcpus} vCPUs and ${required.diskMb}MB disk free`;
+    if (task.placementError !== placementError) {
+      task.placementError = placementError;
+      console.log(`Task ${task.id} waiting for capacity: ${placementError}`);
+      await reportTaskPlacement(env, task.id, { error: placementError });
+    }
+    return;
+  }
+
+  fits.sort((a, b) => b.resources!.memoryMb - a.resources!.memoryMb);
+  const host = fits[0];
+
+  task.payload.targetServer = host.targetServer;
+  delete task.placementError;
+
+  // Account for the launch until the host reports its resources again
+  host.resources = {
+    memoryMb: host.resources!.memoryMb - required.memoryMb,
+    vcpus: host.resources!.vcpus - required.vcpus,
+    diskMb: host.resources!.diskMb - required.diskMb
+  };
+  await env.TASK_BUFFER.put(`consumer:${host.consumerId}`, JSON.stringify(host), {
+    expirationTtl: CONSUMER_RECORD_TTL_SECONDS
+  });
+
+  console.log(`Task ${task.id} placed on server ${host.targetServer}`);
+  await reportTaskPlacement(env, task.id, { targetServer: host.targetServer });
+}
+
+// Record the scheduler's decision on the task in the API worker
+async function reportTaskPlacement(env: Bindings, taskId: string, placement: { targetServer?: string; error?: string }): Promise<void> {
+  const response = await env.API_WORKER.fetch(`https://vm-api-worker/vm/tasks/${taskId}/placement`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${env.API_WORKER_KEY}`
+    },
+    body: JSON.stringify(placement)
+  });
+
+  if (!response.ok) {
+    throw new Error(`API worker responded with ${response.status}`);
+  }
+}
+
+// Add an event (claimed, lease_expired) to the task timeline in the API worker
+async function reportTaskEvent(
+  env: Bindings,
+  taskId: string,
+  event: { type: 'claimed' | 'lease_expired'; consumerId?: string; message?: string; details?: any }
+): Promise<void> {
+  try {
+    const response = await env.API_WORKER.fetch(`https://vm-api-worker/vm/tasks/${taskId}/events`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${env.API_WORKER_KEY}`
+      },
+      body: JSON.stringify(event)
+    });
+
+    if (!response.ok) {
+      throw new Error(`API worker responded with ${response.status}`);
+    }
+  } catch (error) {
+    // The timeline is informational, never fail the caller because of it
+    console.error(`Error reporting ${event.type} event for task ${taskId}:`, error);
+  }
+}
+
+// Report a status change for a task to the API worker (through the service binding).
+// A 409 means the transition is no longer allowed (e.g. the task was cancelled) and is only logged.
+async function reportTaskStatus(env: Bindings, taskId: string, status: string, error?: string, expectedStatus?: string): Promise<void> {
+  const response = await env.API_WORKER.fetch(`https://vm-api-worker/vm/tasks/${taskId}/status`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${env.API_WORKER_KEY}`
+    },
+    body: JSON.stringify({ status, error, expectedStatus })
+  });
+
+  if (response.status === 409) {
+    const body = await response.json<{ error?: string }>();
+    console.log(`Status update of task ${taskId} to ${status} rejected: ${body.error}`);
+    return;
+  }
+
+  if (!response.ok) {
+    throw new Error(`API worker responded with ${response.status}`);
+  }
 }
 
 const app = new Hono<{ Bindings: Bindings }>();
@@ -52,25 +613,41 @@ async function handleQueueMessage(batch: MessageBatch<QueueMessage>, env: Bindin
 
   for (const message of batch.messages) {
     try {
-      const { taskId, type, payload, timestamp } = message.body;
+      const { taskId, type, payload, sequence, timestamp } = message.body;
       
       console.log(`Processing VM task: ${taskId} (${type}) for VM: ${payload.vmName}`);
 
+      // Skip tasks that were cancelled while still in the queue
+      if (await env.TASK_BUFFER.get(`cancelled:${taskId}`)) {
+        console.log(`Task ${taskId} was cancelled, not adding it to the buffer`);
+        message.ack();
+        continue;
+      }
+
       // Create task buffer entry for local consumer
       const taskBuffer: TaskBuffer = {
         id: taskId,
         type,
         payload,
+        priority: message.body.priority || 'normal',
+        tenantId: message.body.tenantId || null,
         createdAt: timestamp,
         receivedAt: new Date().toISOString(),
+        attempts: 0,
         status: 'ready'
       };
 
+      if (needsPlacement(taskBuffer)) {
+        await placeTask(env, taskBuffer);
+      }
+
+      // Line the task up behind earlier tasks for the same VM
+      // (messages without a sequence go to the back)
+      await getVMSequencer(env, payload.vmName).enqueue(taskId, sequence ?? Number.MAX_SAFE_INTEGER);
+
       // Store in task buffer (KV store for local consumer to poll)
-      await env.TASK_BUFFER.put(`buffer:${taskId}`, JSON.stringify(taskBuffer), {
-        // Tasks expire after 1 hour if not claimed
-        expirationTtl: 3600
-      });
+      // Tasks expire after 1 hour if not claimed
+      await putBufferedTask(env, taskBuffer, BUFFER_TTL_SECONDS);
 
       console.log(`Task ${taskId} added to buffer for local consumer processing`);
 
@@ -79,6 +656,16 @@ async function handleQueueMessage(batch: MessageBatch<QueueMessage>, env: Bindin
 
     } catch (error) {
       console.error(`Error processing message ${message.id}:`, error);
+
+      // Remember why delivery failed, in case the message ends up in the dead-letter queue
+      try {
+        const reason = error instanceof Error ? error.message : String(error);
+        await env.TASK_BUFFER.put(`failure:${message.body.taskId}`, reason, {
+          expirationTtl: 86400
+        });
+      } catch (kvError) {
+        console.error(`Error recording failure reason for message ${message.id}:`, kvError);
+      }
       
       // Retry the message
       message.retry({
@@ -88,40 +675,266 @@ async function handleQueueMessage(batch: MessageBatch<QueueMessage>, env: Bindin
   }
 }
 
+// Dead-letter queue handler: mark tasks whose messages exhausted their retries
+async function handleDeadLetterMessage(batch: MessageBatch<QueueMessage>, env: Bindings) {
+  console.log(`Processing batch of ${batch.messages.length} dead-lettered VM task messages`);
+
+  for (const message of batch.messages) {
+    const { taskId, payload } = message.body;
+
+    try {
+      const lastError = await env.TASK_BUFFER.get(`failure:${taskId}`);
+      const reason = `Message exhausted its delivery retries on ${QUEUE_NAME}` +
+        (lastError ? `: ${lastError}` : '');
+
+      await reportTaskStatus(env, taskId, 'dead_lettered', reason);
+      await env.TASK_BUFFER.delete(`failure:${taskId}`);
+
+      // Unblock later tasks for the same VM (the task may have been lined up before a retry)
+      await getVMSequencer(env, payload.vmName).complete(taskId);
+
+      console.log(`Task ${taskId} marked as dead-lettered`);
+
+      message.ack();
+
+    } catch (error) {
+      console.error(`Error processing dead-lettered message ${message.id}:`, error);
+      message.retry({
+        delaySeconds: 30
+      });
+    }
+  }
+}
+
+// Current lane head of each VM (one Durable Object call per distinct VM)
+async function getLaneHeads(env: Bindings, vmNames: string[]): Promise<Map<string, string | null>> {
+  const uniqueNames = [...new Set(vmNames)];
+  const heads = await Promise.all(uniqueNames.map(vmName => getVMSequencer(env, vmName).head()));
+  return new Map(uniqueNames.map((vmName, index) => [vmName, heads[index]]));
+}
+
+// Drop lane heads whose buffer entry is gone, so they don't block their VM: the entry expired
+// unclaimed (e.g. targeted at a host without a consumer) or a retry was never delivered.
+// They are dead-lettered and can be replayed.
+async function dropStaleHeads(env: Bindings, heads: Map<string, string | null>, bufferedTasks: BufferMetadata[]) {
+  const bufferedIds = new Set(bufferedTasks.map(task => task.id));
+
+  for (const [vmName, head] of heads) {
+    if (!head || bufferedIds.has(head)) continue;
+
+    // Key listings may lag behind writes
+    if (await env.TASK_BUFFER.get(`buffer:${head}`)) continue;
+
+    const sequencer = getVMSequencer(env, vmName);
+    if (!await sequencer.dropStaleHead(head)) continue;
+
+    console.log(`Task ${head} left the buffer without finishing, unblocking VM ${vmName}`);
+    heads.set(vmName, await sequencer.head());
+
+    try {
+      await reportTaskStatus(env, head, 'dead_lettered', 'Task expired from the buffer before it could run');
+    } catch (error) {
+      console.error(`Error reporting expired task ${head}:`, error);
+    }
+  }
+}
+
+// Ready tasks a consumer for the given server may run now, by (aged) priority then age
+async function listRunnableTasks(env: Bindings, server: string): Promise<BufferMetadata[]> {
+  const bufferedTasks = await listBufferedTasks(env);
+  const readyTasks = bufferedTasks.filter(task => task.status === 'ready' && servesTask(task, server));
+
+  // Hold back tasks queued behind an unfinished task for the same VM
+  const heads = await getLaneHeads(env, readyTasks.map(task => task.vmName));
+  await dropStaleHeads(env, heads, bufferedTasks);
+  const runnableTasks = readyTasks.filter(task => {
+    const head = heads.get(task.vmName);
+    return !head || head === task.id;
+  });
+
+  // Highest priority first, oldest first within a priority
+  const now = Date.now();
+  runnableTasks.sort((a, b) =>
+    getEffectivePriority(env, b, now) - getEffectivePriority(env, a, now) ||
+    new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  );
+
+  // Hold back tasks of tenants that already have their maximum of tasks in flight
+  const maxInFlight = getTenantMaxInFlight(env);
+  const inFlight = new Map<string, number>();
+  for (const task of bufferedTasks) {
+    if (task.status !== 'ready' && task.tenantId) {
+      inFlight.set(task.tenantId, (inFlight.get(task.tenantId) || 0) + 1);
+    }
+  }
+
+  const dispatchableTasks = runnableTasks.filter(task => {
+    if (!task.tenantId) return true;
+
+    const count = inFlight.get(task.tenantId) || 0;
+    if (count >= maxInFlight) return false;
+
+    inFlight.set(task.tenantId, count + 1);
+    return true;
+  });
+
+  console.log(`Found ${dispatchableTasks.length} ready VM tasks for server ${server} (${readyTasks.length - dispatchableTasks.length} held back)`);
+
+  return dispatchableTasks;
+}
+
+type ClaimOutcome =
+  | { success: true; task: TaskBuffer }
+  | { success: false; status: 404 | 409; error: string };
+
+// Claim a buffered task for a consumer, checking cancellation, targeting and the VM lane first
+async function claimBufferedTask(
+  env: Bindings,
+  ctx: ExecutionContext,
+  taskId: string,
+  consumerId: string,
+  server: string
+): Promise<ClaimOutcome> {
+  const taskJson = await env.TASK_BUFFER.get(`buffer:${taskId}`);
+  if (!taskJson) {
+    return { success: false, status: 404, error: 'Task not found' };
+  }
+
+  const task: TaskBuffer = JSON.parse(taskJson);
+
+  if (await env.TASK_BUFFER.get(`cancelled:${taskId}`)) {
+    return { success: false, status: 409, error: 'Task was cancelled' };
+  }
+
+  if (!servesTask(toBufferMetadata(task), server)) {
+    return { success: false, status: 409, error: `Task is targeted at server ${task.payload.targetServer}` };
+  }
+
+  // Only the oldest unfinished task of a VM may run
+  const head = await getVMSequencer(env, task.payload.vmName).start(taskId);
+  if (head && head !== taskId) {
+    return { success: false, status: 409, error: `Task is waiting for task ${head} on VM ${task.payload.vmName}` };
+  }
+
+  // Claim atomically through the task's Durable Object, the KV status may be stale
+  const claimResult = await getTaskClaim(env, taskId).claim(consumerId, getLeaseMs(env));
+
+  if (!claimResult.success) {
+    return { success: false, status: 409, error: `Task is already claimed by ${claimResult.claim?.claimedBy}` };
+  }
+
+  // Mirror the claim into the buffer listing
+  task.status = 'claimed';
+  task.claimedAt = claimResult.claim.claimedAt;
+  task.claimedBy = consumerId;
+  task.leaseExpiresAt = claimResult.claim.leaseExpiresAt;
+
+  // Without the mirror the entry stays ready and the lease sweep would never reclaim it
+  try {
+    await putBufferedTask(env, task);
+  } catch (error) {
+    await getTaskClaim(env, taskId).release();
+    throw error;
+  }
+
+  console.log(`Task ${taskId} claimed by consumer ${consumerId}`);
+
+  ctx.waitUntil(reportTaskEvent(env, taskId, {
+    type: 'claimed',
+    consumerId,
+    details: {
+      leaseExpiresAt: task.leaseExpiresAt,
+      attempts: task.attempts
+    }
+  }));
+
+  return { success: true, task };
+}
+
+// Task as handed to the local consumer that claimed it
+function toClaimedTask(task: TaskBuffer) {
+  return {
+    id: task.id,
+    type: task.type,
+    payload: task.payload,
+    priority: task.priority,
+    createdAt: task.createdAt,
+    receivedAt: task.receivedAt,
+    claimedAt: task.claimedAt,
+    leaseExpiresAt: task.leaseExpiresAt,
+    attempts: task.attempts
+  };
+}
+
 // Get ready tasks for local consumer polling
 app.get('/tasks/ready', async (c) => {
   try {
-    const { keys } = await c.env.TASK_BUFFER.list({ prefix: 'buffer:' });
-    const readyTasks = [];
-
-    for (const key of keys) {
-      const taskJson = await c.env.TASK_BUFFER.get(key.name);
-      if (taskJson) {
-        const task: TaskBuffer = JSON.parse(taskJson);
-        if (task.status === 'ready') {
-          readyTasks.push({
-            id: task.id,
-            type: task.type,
-            vmName: task.payload.vmName,
-            createdAt: task.createdAt,
-            receivedAt: task.receivedAt
+    const server = c.req.query('server') || DEFAULT_TARGET_SERVER;
+    const runnableTasks = (await listRunnableTasks(c.env, server)).map(task => ({
+      id: task.id,
+      type: task.type,
+      vmName: task.vmName,
+      targetServer: task.targetServer,
+      priority: task.priority,
+      createdAt: task.createdAt,
+      receivedAt: task.receivedAt
+    }));
+
+    return c.json({
+      tasks: runnableTasks,
+      count: runnableTasks.length
+    });
+
+  } catch (error) {
+    console.error('Error getting ready tasks:', error);
+    return c.json({
+      success: false,
+      error: 'Internal server error'
+    }, 500);
+  }
+});
+
+// Long-poll for the next task: waits up to waitSeconds for a runnable task and claims it.
+// Responds with task: null when nothing became available in time.
+app.post('/tasks/next', async (c) => {
+  try {
+    const body = await c.req.json();
+    const { consumerId } = body;
+    const server: string = body.server || DEFAULT_TARGET_SERVER;
+    const waitSeconds = Math.min(Math.max(Number(body.waitSeconds) || 0, 0), MAX_CLAIM_WAIT_SECONDS);
+
+    if (!isValidConsumerId(consumerId)) {
+      return c.json({
+        success: false,
+        error: `Consumer ID is required (a string of at most ${MAX_CONSUMER_ID_BYTES} bytes)`
+      }, 400);
+    }
+
+    const deadline = Date.now() + waitSeconds * 1000;
+
+    while (true) {
+      for (const candidate of await listRunnableTasks(c.env, server)) {
+        // Another consumer may claim it first, move on to the next one
+        const outcome = await claimBufferedTask(c.env, c.executionCtx, candidate.id, consumerId, server);
+        if (outcome.success) {
+          return c.json({
+            success: true,
+            task: toClaimedTask(outcome.task)
           });
         }
       }
-    }
-
-    // Sort by creation time (oldest first)
-    readyTasks.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
 
-    console.log(`Found ${readyTasks.length} ready VM tasks`);
+      if (Date.now() + CLAIM_POLL_INTERVAL_MS > deadline) break;
+      await new Promise(resolve => setTimeout(resolve, CLAIM_POLL_INTERVAL_MS));
+    }
 
     return c.json({
-      tasks: readyTasks,
-      count: readyTasks.length
+      success: true,
+      task: null
     });
 
   } catch (error) {
-    console.error('Error getting ready tasks:', error);
+    console.error('Error claiming next task:', error);
     return c.json({
       success: false,
       error: 'Internal server error'
@@ -135,55 +948,130 @@ app.post('/tasks/:taskId/claim', async (c) => {
     const taskId = c.req.param('taskId');
     const body = await c.req.json();
     const { consumerId } = body;
+    const server: string = body.server || DEFAULT_TARGET_SERVER;
 
-    if (!consumerId) {
+    if (!isValidConsumerId(consumerId)) {
       return c.json({
         success: false,
-        error: 'Consumer ID is required'
+        error: `Consumer ID is required (a string of at most ${MAX_CONSUMER_ID_BYTES} bytes)`
       }, 400);
     }
 
-    const taskJson = await c.env.TASK_BUFFER.get(`buffer:${taskId}`);
-    if (!taskJson) {
+    const outcome = await claimBufferedTask(c.env, c.executionCtx, taskId, consumerId, server);
+
+    if (!outcome.success) {
       return c.json({
         success: false,
-        error: 'Task not found'
-      }, 404);
+        error: outcome.error
+      }, outcome.status);
+    }
+
+    return c.json({
+      success: true,
+      message: 'Task claimed successfully',
+      task: toClaimedTask(outcome.task)
+    });
+
+  } catch (error) {
+    console.error('Error claiming task:', error);
+    return c.json({
+      success: false,
+      error: 'Internal server error'
+    }, 500);
+  }
+});
+
+// Extend the lease of a claimed task while the consumer is executing it
+app.post('/tasks/:taskId/heartbeat', async (c) => {
+  try {
+    const taskId = c.req.param('taskId');
+    const body = await c.req.json();
+    const { consumerId } = body;
+
+    if (!isValidConsumerId(consumerId)) {
+      return c.json({
+        success: false,
+        error: `Consumer ID is required (a string of at most ${MAX_CONSUMER_ID_BYTES} bytes)`
+      }, 400);
     }
 
-    const task: TaskBuffer = JSON.parse(taskJson);
+    const heartbeatResult = await getTaskClaim(c.env, taskId).heartbeat(consumerId, getLeaseMs(c.env));
 
-    if (task.status !== 'ready') {
+    if (!heartbeatResult.success) {
       return c.json({
         success: false,
-        error: `Task is not ready for claiming (status: ${task.status})`
+        error: heartbeatResult.claim
+          ? `Task is claimed by ${heartbeatResult.claim.claimedBy}`
+          : 'Task is not claimed (lease may have expired)'
       }, 409);
     }
 
-    // Claim the task
-    task.status = 'claimed';
-    task.claimedAt = new Date().toISOString();
-    task.claimedBy = consumerId;
+    // Mirror the new lease into the buffer listing
+    const taskJson = await c.env.TASK_BUFFER.get(`buffer:${taskId}`);
+    if (taskJson) {
+      const task: TaskBuffer = JSON.parse(taskJson);
+      task.leaseExpiresAt = heartbeatResult.claim.leaseExpiresAt;
+      await putBufferedTask(c.env, task);
+    }
+
+    return c.json({
+      success: true,
+      taskId,
+      leaseExpiresAt: heartbeatResult.claim.leaseExpiresAt
+    });
+
+  } catch (error) {
+    console.error('Error recording heartbeat:', error);
+    return c.json({
+      success: false,
+      error: 'Internal server error'
+    }, 500);
+  }
+});
+
+// Cancel a task: drop it from the buffer if nobody claimed it yet, and make sure
+// it is not buffered again if its queue message has not been delivered yet
+app.post('/tasks/:taskId/cancel', async (c) => {
+  try {
+    const taskId = c.req.param('taskId');
+    const body = await c.req.json().catch(() => ({}));
+    let vmName: string | undefined = body.vmName;
+
+    await c.env.TASK_BUFFER.put(`cancelled:${taskId}`, new Date().toISOString(), {
+      expirationTtl: 86400
+    });
+
+    let removed = false;
+    const taskJson = await c.env.TASK_BUFFER.get(`buffer:${taskId}`);
+    if (taskJson) {
+      const task: TaskBuffer = JSON.parse(taskJson);
+
+      vmName = task.payload.vmName;
+
+      // A claimed task is stopped by the local consumer executing it
+      if (task.status === 'ready') {
+        await c.env.TASK_BUFFER.delete(`buffer:${taskId}`);
+        await getTaskClaim(c.env, taskId).release();
+        removed = true;
+      }
+    }
 
-    await c.env.TASK_BUFFER.put(`buffer:${taskId}`, JSON.stringify(task));
+    // Unless it is running, the task no longer holds back later tasks for its VM
+    if (vmName && (removed || !taskJson)) {
+      await getVMSequencer(c.env, vmName).complete(taskId);
+    }
 
-    console.log(`Task ${taskId} claimed by consumer ${consumerId}`);
+    console.log(`Task ${taskId} cancelled${removed ? ' and removed from buffer' : ''}`);
 
     return c.json({
       success: true,
-      message: 'Task claimed successfully',
-      task: {
-        id: task.id,
-        type: task.type,
-        payload: task.payload,
-        createdAt: task.createdAt,
-        receivedAt: task.receivedAt,
-        claimedAt: task.claimedAt
-      }
+      message: 'Task cancelled',
+      taskId,
+      removed
     });
 
   } catch (error) {
-    console.error('Error claiming task:', error);
+    console.error('Error cancelling task:', error);
     return c.json({
       success: false,
       error: 'Internal server error'
@@ -191,26 +1079,138 @@ app.post('/tasks/:taskId/claim', async (c) => {
   }
 });
 
-// Get all tasks in buffer (for debugging)
-app.get('/tasks/all', async (c) => {
-  try {
-    const { keys } = await c.env.TASK_BUFFER.list({ prefix: 'buffer:' });
-    const allTasks = [];
-
-    for (const key of keys) {
-      const taskJson = await c.env.TASK_BUFFER.get(key.name);
-      if (taskJson) {
-        const task: TaskBuffer = JSON.parse(taskJson);
-        allTasks.push(task);
+// Return claimed tasks whose lease has expired to the ready pool
+async function sweepExpiredLeases(env: Bindings) {
+  const now = Date.now();
+  const expired = (await listBufferedTasks(env)).filter(task =>
+    task.status !== 'ready' && task.leaseExpiresAt && new Date(task.leaseExpiresAt).getTime() <= now
+  );
+  let reclaimed = 0;
+
+  for (const { id } of expired) {
+    try {
+      const taskJson = await env.TASK_BUFFER.get(`buffer:${id}`);
+      if (!taskJson) continue;
+
+      const task: TaskBuffer = JSON.parse(taskJson);
+
+      // Cancelled tasks are dropped instead of being returned to the ready pool
+      if (await env.TASK_BUFFER.get(`cancelled:${task.id}`)) {
+        await env.TASK_BUFFER.delete(`buffer:${id}`);
+        await getTaskClaim(env, task.id).release();
+        await getVMSequencer(env, task.payload.vmName).complete(task.id);
+        console.log(`Lease for cancelled task ${task.id} expired, removed from buffer`);
+        continue;
       }
+
+      // The KV copy may be stale, the Durable Object decides whether the lease really expired
+      const expiredClaim = await getTaskClaim(env, task.id).reclaimIfExpired();
+      if (!expiredClaim) continue;
+
+      const previousConsumer = task.claimedBy;
+      task.status = 'ready';
+      task.attempts = (task.attempts || 0) + 1;
+      delete task.claimedAt;
+      delete task.claimedBy;
+      delete task.leaseExpiresAt;
+
+      await putBufferedTask(env, task, BUFFER_TTL_SECONDS);
+
+      reclaimed++;
+      console.log(`Lease for task ${task.id} held by ${previousConsumer} expired, returned to ready pool (attempt ${task.attempts})`);
+
+      await reportTaskEvent(env, task.id, {
+        type: 'lease_expired',
+        consumerId: previousConsumer,
+        message: `Lease expired at ${expiredClaim.leaseExpiresAt}`,
+        details: { attempts: task.attempts }
+      });
+      await reportTaskStatus(env, task.id, 'pending', `Lease expired (claimed by ${previousConsumer})`, 'processing');
+
+    } catch (error) {
+      console.error(`Error sweeping lease for task ${id}:`, error);
     }
+  }
+
+  if (reclaimed > 0) {
+    console.log(`Lease sweep returned ${reclaimed} task(s) to the ready pool`);
+  }
+}
+
+// Give tasks held back behind another task of their VM a fresh buffer TTL, they can't be
+// claimed before the VM's earlier tasks are done however long those take
+async function refreshHeldBackTasks(env: Bindings) {
+  const keys = await listAllKeys<BufferMetadata>(env, 'buffer:');
+  const refreshBefore = Date.now() / 1000 + BUFFER_REFRESH_BEFORE_SECONDS;
+  const expiring = keys.filter(key =>
+    key.metadata?.status === 'ready' && key.expiration && key.expiration < refreshBefore
+  );
+  if (expiring.length === 0) return;
+
+  const heads = await getLaneHeads(env, expiring.map(key => key.metadata!.vmName));
+
+  for (const key of expiring) {
+    const head = heads.get(key.metadata!.vmName);
+    if (!head || head === key.metadata!.id) continue;
+
+    try {
+      const taskJson = await env.TASK_BUFFER.get(key.name);
+      if (!taskJson) continue;
+
+      await putBufferedTask(env, JSON.parse(taskJson), BUFFER_TTL_SECONDS);
+      console.log(`Refreshed buffer TTL of task ${key.metadata!.id}, waiting for task ${head}`);
+    } catch (error) {
+      console.error(`Error refreshing buffer TTL of task ${key.metadata!.id}:`, error);
+    }
+  }
+}
+
+// Retry placing launches that are waiting for capacity
+async function placeWaitingTasks(env: Bindings) {
+  const waiting = (await listBufferedTasks(env)).filter(task => task.placementPending);
+
+  for (const { id } of waiting) {
+    try {
+      const taskJson = await env.TASK_BUFFER.get(`buffer:${id}`);
+      if (!taskJson) continue;
+
+      const task: TaskBuffer = JSON.parse(taskJson);
+      if (!task.placementError) continue;
+
+      await placeTask(env, task);
+
+      await putBufferedTask(env, task, BUFFER_TTL_SECONDS);
+    } catch (error) {
+      console.error(`Error placing task ${id}:`, error);
+    }
+  }
+}
+
+// Get all tasks in buffer (for debugging), a page of ?limit= tasks at a time.
+// Pass the returned cursor as ?cursor= to get the next page.
+app.get('/tasks/all', async (c) => {
+  try {
+    const limit = Math.min(Math.max(parseInt(c.req.query('limit') || '') || 100, 1), 1000);
+    const page = await c.env.TASK_BUFFER.list({ prefix: 'buffer:', cursor: c.req.query('cursor'), limit });
+
+    const values = await Promise.all(page.keys.map(key => c.env.TASK_BUFFER.get(key.name)));
+    const allTasks: TaskBuffer[] = values
+      .filter((taskJson): taskJson is string => taskJson !== null)
+      .map(taskJson => JSON.parse(taskJson));
 
     // Sort by creation time
     allTasks.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
 
+    const heads = await getLaneHeads(c.env, allTasks.map(task => task.payload.vmName));
+    const tasks = allTasks.map(task => {
+      const head = heads.get(task.payload.vmName);
+      return head && head !== task.id ? { ...task, blockedBy: head } : task;
+    });
+
     return c.json({
-      tasks: allTasks,
-      count: allTasks.length
+      tasks,
+      count: tasks.length,
+      cursor: page.list_complete ? null : page.cursor
     });
 
   } catch (error) {
@@ -222,14 +1222,25 @@ app.get('/tasks/all', async (c) => {
   }
 });
 
-// Remove completed task from buffer
+// Remove completed task from buffer. With ?retrying=true the task keeps its place
+// in the VM lane, since it will be delivered again after its retry backoff.
 app.delete('/tasks/:taskId', async (c) => {
   try {
     const taskId = c.req.param('taskId');
+    const retrying = c.req.query('retrying') === 'true';
+
+    const taskJson = await c.env.TASK_BUFFER.get(`buffer:${taskId}`);
     
     await c.env.TASK_BUFFER.delete(`buffer:${taskId}`);
+    await getTaskClaim(c.env, taskId).release();
+
+    if (taskJson) {
+      const task: TaskBuffer = JSON.parse(taskJson);
+      const sequencer = getVMSequencer(c.env, task.payload.vmName);
+      await (retrying ? sequencer.awaitRetry(taskId) : sequencer.complete(taskId));
+    }
     
-    console.log(`Task ${taskId} removed from buffer`);
+    console.log(`Task ${taskId} removed from buffer${retrying ? ' (retry pending)' : ''}`);
 
     return c.json({
       success: true,
@@ -248,7 +1259,6 @@ app.delete('/tasks/:taskId', async (c) => {
 // Get buffer statistics
 app.get('/stats', async (c) => {
   try {
-    const { keys } = await c.env.TASK_BUFFER.list({ prefix: 'buffer:' });
     const stats = {
       ready: 0,
       claimed: 0,
@@ -256,13 +1266,9 @@ app.get('/stats', async (c) => {
       total: 0
     };
 
-    for (const key of keys) {
-      const taskJson = await c.env.TASK_BUFFER.get(key.name);
-      if (taskJson) {
-        const task: TaskBuffer = JSON.parse(taskJson);
-        stats[task.status]++;
-        stats.total++;
-      }
+    for (const task of await listBufferedTasks(c.env)) {
+      stats[task.status]++;
+      stats.total++;
     }
 
     return c.json({
@@ -279,6 +1285,181 @@ app.get('/stats', async (c) => {
   }
 });
 
+// Register a local consumer, re-registering replaces its previous record
+app.post('/consumers/register', async (c) => {
+  try {
+    const body = await c.req.json();
+    const { consumerId, hostname, version, targetServer, arrakisUrl, capacity, resources } = body;
+
+    if (!consumerId || !hostname) {
+      return c.json({
+        success: false,
+        error: 'Consumer ID and hostname are required'
+      }, 400);
+    }
+
+    if (!isValidConsumerId(consumerId)) {
+      return c.json({
+        success: false,
+        error: `Consumer ID must be a string of at most ${MAX_CONSUMER_ID_BYTES} bytes`
+      }, 400);
+    }
+
+    if (targetServer !== undefined && (typeof targetServer !== 'string' ||
+        new TextEncoder().encode(targetServer).length > MAX_TARGET_SERVER_BYTES)) {
+      return c.json({
+        success: false,
+        error: `targetServer must be a string of at most ${MAX_TARGET_SERVER_BYTES} bytes`
+      }, 400);
+    }
+
+    const now = new Date().toISOString();
+    const consumer: ConsumerRecord = {
+      consumerId,
+      hostname,
+      version: version || 'unknown',
+      targetServer: targetServer || DEFAULT_TARGET_SERVER,
+      arrakisUrl: arrakisUrl || '',
+      capacity: {
+        maxConcurrentTasks: capacity?.maxConcurrentTasks > 0 ? capacity.maxConcurrentTasks : 1
+      },
+      resources: parseHostResources(resources),
+      registeredAt: now,
+      lastSeenAt: now
+    };
+
+    await c.env.TASK_BUFFER.put(`consumer:${consumerId}`, JSON.stringify(consumer), {
+      expirationTtl: CONSUMER_RECORD_TTL_SECONDS
+    });
+
+    console.log(`Consumer ${consumerId} registered from ${hostname} for server ${consumer.targetServer}`);
+
+    return c.json({
+      success: true,
+      consumer
+    });
+
+  } catch (error) {
+    console.error('Error registering consumer:', error);
+    return c.json({
+      success: false,
+      error: 'Internal server error'
+    }, 500);
+  }
+});
+
+// Record that a consumer is still alive (with its host's free resources), 404 tells it to register again
+app.post('/consumers/:consumerId/heartbeat', async (c) => {
+  try {
+    const consumerId = c.req.param('consumerId');
+    const body = await c.req.json().catch(() => ({}));
+    const consumerJson = await c.env.TASK_BUFFER.get(`consumer:${consumerId}`);
+
+    if (!consumerJson) {
+      return c.json({
+        success: false,
+        error: 'Consumer not registered'
+      }, 404);
+    }
+
+    const consumer: ConsumerRecord = JSON.parse(consumerJson);
+    consumer.lastSeenAt = new Date().toISOString();
+    if (body.resources) {
+      consumer.resources = parseHostResources(body.resources);
+    }
+
+    await c.env.TASK_BUFFER.put(`consumer:${consumerId}`, JSON.stringify(consumer), {
+      expirationTtl: CONSUMER_RECORD_TTL_SECONDS
+    });
+
+    return c.json({
+      success: true,
+      consumerId,
+      lastSeenAt: consumer.lastSeenAt
+    });
+
+  } catch (error) {
+    console.error('Error recording consumer heartbeat:', error);
+    return c.json({
+      success: false,
+      error: 'Internal server error'
+    }, 500);
+  }
+});
+
+// Remove a consumer from the registry when it shuts down
+app.delete('/consumers/:consumerId', async (c) => {
+  try {
+    const consumerId = c.req.param('consumerId');
+    await c.env.TASK_BUFFER.delete(`consumer:${consumerId}`);
+
+    console.log(`Consumer ${consumerId} deregistered`);
+
+    return c.json({
+      success: true,
+      message: 'Consumer deregistered'
+    });
+
+  } catch (error) {
+    console.error('Error deregistering consumer:', error);
+    return c.json({
+      success: false,
+      error: 'Internal server error'
+    }, 500);
+  }
+});
+
+// Fleet view: registered consumers, whether they are alive and the tasks they hold
+app.get('/consumers', async (c) => {
+  try {
+    const [consumerKeys, bufferedTasks] = await Promise.all([
+      listAllKeys(c.env, 'consumer:'),
+      listBufferedTasks(c.env)
+    ]);
+
+    // Tasks currently claimed, by consumer
+    const claimedTasks = new Map<string, string[]>();
+    for (const task of bufferedTasks) {
+      if (task.claimedBy && task.status !== 'ready') {
+        claimedTasks.set(task.claimedBy, [...(claimedTasks.get(task.claimedBy) || []), task.id]);
+      }
+    }
+
+    const staleMs = getConsumerStaleMs(c.env);
+    const now = Date.now();
+    const consumers = [];
+
+    for (const key of consumerKeys) {
+      const consumerJson = await c.env.TASK_BUFFER.get(key.name);
+      if (consumerJson) {
+        const consumer: ConsumerRecord = JSON.parse(consumerJson);
+        const stale = now - new Date(consumer.lastSeenAt).getTime() > staleMs;
+        consumers.push({
+          ...consumer,
+          status: stale ? 'stale' : 'alive',
+          currentTasks: claimedTasks.get(consumer.consumerId) || []
+        });
+      }
+    }
+
+    consumers.sort((a, b) => new Date(b.lastSeenAt).getTime() - new Date(a.lastSeenAt).getTime());
+
+    return c.json({
+      consumers,
+      count: consumers.length,
+      alive: consumers.filter(consumer => consumer.status === 'alive').length,
+      stale: consumers.filter(consumer => consumer.status === 'stale').length
+    });
+
+  } catch (error) {
+    console.error('Error listing consumers:', error);
+    return c.json({
+      success: false,
+      error: 'Internal server error'
+    }, 500);
+  }
+});
+
 // Default route
 app.get('/', (c) => {
   return c.json({
@@ -289,9 +1470,16 @@ app.get('/', (c) => {
       health: 'GET /health',
       readyTasks: 'GET /tasks/ready',
       claimTask: 'POST /tasks/:taskId/claim',
+      claimNextTask: 'POST /tasks/next',
+      heartbeat: 'POST /tasks/:taskId/heartbeat',
+      cancelTask: 'POST /tasks/:taskId/cancel',
       allTasks: 'GET /tasks/all',
       removeTask: 'DELETE /tasks/:taskId',
-      stats: 'GET /stats'
+      stats: 'GET /stats',
+      registerConsumer: 'POST /consumers/register',
+      consumerHeartbeat: 'POST /consumers/:consumerId/heartbeat',
+      deregisterConsumer: 'DELETE /consumers/:consumerId',
+      consumers: 'GET /consumers'
     }
   });
 });
@@ -300,6 +1488,15 @@ app.get('/', (c) => {
 export default {
   fetch: app.fetch,
   async queue(batch: MessageBatch<QueueMessage>, env: Bindings): Promise<void> {
-    await handleQueueMessage(batch, env);
+    if (batch.queue === DEAD_LETTER_QUEUE_NAME) {
+      await handleDeadLetterMessage(batch, env);
+    } else {
+      await handleQueueMessage(batch, env);
+    }
+  },
+  async scheduled(controller: ScheduledController, env: Bindings, ctx: ExecutionContext): Promise<void> {
+    ctx.waitUntil(sweepExpiredLeases(env));
+    ctx.waitUntil(placeWaitingTasks(env));
+    ctx.waitUntil(refreshHeldBackTasks(env));
   }
 };
@@ -1,10 +1,16 @@
 import axios from 'axios';
 import * as fs from 'fs/promises';
+import * as os from 'os';
 import { exec } from 'child_process';
 import { promisify } from 'util';
 
 const execAsync = promisify(exec);
 
+const CONSUMER_VERSION = process.env.npm_package_version || 'unknown';
+
+// How long a single POST /tasks/next waits for a task
+const CLAIM_WAIT_SECONDS = 20;
+
 interface VMTask {
   id: string;
   type: 'launch_vm' | 'delete_vm' | 'stop_vm' | 'pause_vm' | 'snapshot_vm' | 'run_command';
@@ -14,6 +20,7 @@ interface VMTask {
     snapshotId?: string;
     command?: string;
     blocking?: boolean;
+    targetServer?: string;
   };
 }
 
@@ -24,26 +31,65 @@ interface VMInfo {
   portForwards?: any[];
   subdomain?: string;
   demoUrl?: string;
+  server?: string;
+}
+
+class TaskCancelledError extends Error {
+  constructor(taskId: string) {
+    super(`Task ${taskId} was cancelled`);
+    this.name = 'TaskCancelledError';
+  }
+}
+
+// Runs async sections one at a time, in the order they were requested
+class Mutex {
+  private tail: Promise<void> = Promise.resolve();
+
+  runExclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const result = this.tail.then(fn);
+    this.tail = result.then(() => undefined, () => undefined);
+    return result;
+  }
 }
 
 class VMConsumer {
   private consumerUrl: string;
   private apiUrl: string;
+  private apiKey: string;
   private arrakisUrl: string;
   private consumerId: string;
   private isRunning = false;
   private tunnelName: string;
   private tunnelConfigPath: string;
   private baseDomain: string;
+  private heartbeatIntervalMs: number;
+  private targetServer: string;
+  private vmDataPath: string;
+  private maxConcurrentTasks: number;
+  private activeTasks = new Map<string, Promise<void>>();
+  // Concurrent launches and deletes all rewrite the shared cloudflared config
+  private tunnelConfigLock = new Mutex();
+  private registryHeartbeat?: NodeJS.Timeout;
+  private reconcileIntervalMs: number;
+  private reconcileRepair: boolean;
+  private reconcileTimer?: NodeJS.Timeout;
+  private isReconciling = false;
 
   constructor() {
     this.consumerUrl = process.env.CONSUMER_WORKER_URL || 'https://vm-consumer-worker.poridhiaccess.workers.dev';
     this.apiUrl = process.env.API_WORKER_URL || 'https://vm-api-worker.poridhiaccess.workers.dev';
+    this.apiKey = process.env.API_WORKER_KEY || '';
     this.arrakisUrl = process.env.ARRAKIS_URL || 'http://127.0.0.1:7000';
     this.consumerId = `consumer-${Date.now()}`;
     this.tunnelName = process.env.TUNNEL_NAME || 'arrakis-vm-tunnel';
     this.tunnelConfigPath = process.env.TUNNEL_CONFIG_PATH || '/etc/cloudflared/config.yml';
     this.baseDomain = process.env.BASE_DOMAIN || 'sandbox.puku.sh';
+    this.heartbeatIntervalMs = parseInt(process.env.HEARTBEAT_INTERVAL_MS || '30000');
+    this.targetServer = process.env.TARGET_SERVER || 'default';
+    this.vmDataPath = process.env.VM_DATA_PATH || '/opt/arrakis';
+    this.maxConcurrentTasks = Math.max(1, parseInt(process.env.MAX_CONCURRENT_TASKS || '4') || 1);
+    this.reconcileIntervalMs = parseInt(process.env.RECONCILE_INTERVAL_MS || '300000') || 0;
+    this.reconcileRepair = process.env.RECONCILE_REPAIR === 'true';
   }
 
   async start() {
@@ -51,10 +97,21 @@ class VMConsumer {
     console.log(`[INFO] Consumer Worker: ${this.consumerUrl}`);
     console.log(`[INFO] API Worker: ${this.apiUrl}`);
     console.log(`[INFO] Arrakis Server: ${this.arrakisUrl}`);
+    console.log(`[INFO] Target Server: ${this.targetServer}`);
+    console.log(`[INFO] Max Concurrent Tasks: ${this.maxConcurrentTasks}`);
+    if (!this.apiKey) {
+      console.log('[WARN] API_WORKER_KEY is not set, task status updates will be rejected');
+    }
     console.log(`[INFO] Tunnel Name: ${this.tunnelName}`);
     console.log(`[INFO] Base Domain: ${this.baseDomain}`);
 
     this.isRunning = true;
+    await this.register();
+    this.registryHeartbeat = setInterval(() => this.sendConsumerHeartbeat(), this.heartbeatIntervalMs);
+    if (this.reconcileIntervalMs > 0) {
+      console.log(`[INFO] Reconciling every ${this.reconcileIntervalMs / 1000}s${this.reconcileRepair ? ' (repair enabled)' : ''}`);
+      this.reconcileTimer = setInterval(() => this.reconcile(), this.reconcileIntervalMs);
+    }
     this.poll();
 
     process.on('SIGINT', () => this.stop());
@@ -64,8 +121,13 @@ class VMConsumer {
   private async poll() {
     while (this.isRunning) {
       try {
-        await this.processTasks();
-        await this.sleep(5000);
+        // Wait for a free slot in the worker pool
+        if (this.activeTasks.size >= this.maxConcurrentTasks) {
+          await Promise.race(this.activeTasks.values());
+          continue;
+        }
+
+        await this.claimNextTask();
       } catch (error) {
         if (error instanceof Error) {
           console.error('[ERROR] Polling error:', error.message);
@@ -77,62 +139,103 @@ class VMConsumer {
     }
   }
 
-  private async processTasks() {
-    const response = await axios.get(`${this.consumerUrl}/tasks/ready`);
-    const { tasks } = response.data;
+  // Long-poll the consumer worker for the next task, and start it without waiting for it to finish
+  private async claimNextTask() {
+    const response = await axios.post(`${this.consumerUrl}/tasks/next`, {
+      consumerId: this.consumerId,
+      server: this.targetServer,
+      waitSeconds: CLAIM_WAIT_SECONDS
+    }, {
+      timeout: (CLAIM_WAIT_SECONDS + 10) * 1000
+    });
 
-    if (tasks.length === 0) {
+    const task: VMTask | null = response.data.task;
+    if (!task) {
       console.log('[INFO] No ready tasks');
       return;
     }
 
-    console.log(`[INFO] Found ${tasks.length} ready task(s)`);
+    console.log(`[INFO] Claimed task: ${task.id} (${this.activeTasks.size + 1}/${this.maxConcurrentTasks} slots in use)`);
+    this.runTask(task);
+  }
 
-    for (const taskSummary of tasks) {
-      try {
-        await this.processTask(taskSummary.id);
-      } catch (error) {
+  private runTask(task: VMTask) {
+    const run = this.processTask(task)
+      .catch(error => {
         if (error instanceof Error) {
-          console.error(`[ERROR] Failed to process task ${taskSummary.id}:`, error.message);
+          console.error(`[ERROR] Failed to process task ${task.id}:`, error.message);
         } else {
-          console.error(`[ERROR] Failed to process task ${taskSummary.id}:`, error);
+          console.error(`[ERROR] Failed to process task ${task.id}:`, error);
         }
-      }
-    }
+      })
+      .finally(() => this.activeTasks.delete(task.id));
+
+    this.activeTasks.set(task.id, run);
   }
 
-  private async processTask(taskId: string) {
-    console.log(`[INFO] Claiming task: ${taskId}`);
+  // Run a task this consumer has claimed
+  private async processTask(task: VMTask) {
+    const taskId = task.id;
 
-    const claimResponse = await axios.post(`${this.consumerUrl}/tasks/${taskId}/claim`, {
-      consumerId: this.consumerId
-    });
-
-    if (!claimResponse.data.success) {
-      console.log(`[WARN] Failed to claim task ${taskId}`);
+    if (await this.isCancelled(taskId)) {
+      console.log(`[INFO] Task ${taskId} was cancelled, skipping`);
+      await axios.delete(`${this.consumerUrl}/tasks/${taskId}`);
       return;
     }
 
-    const task: VMTask = claimResponse.data.task;
     console.log(`[INFO] Processing ${task.type} for VM: ${task.payload.vmName}`);
 
-    await this.updateTaskStatus(taskId, 'processing');
+    // Another reporter moved the task on (e.g. it was cancelled), don't execute it
+    const startedStatus = await this.updateTaskStatus(taskId, 'processing', 'pending');
+    if (startedStatus === null) {
+      await axios.delete(`${this.consumerUrl}/tasks/${taskId}`);
+      return;
+    }
+
+    // Without the API knowing it started, the outcome couldn't be reported either;
+    // leave the task to be claimed again once its lease expires
+    if (startedStatus === undefined) {
+      console.log(`[WARN] Not running task ${taskId}, it stays in the buffer until its lease expires`);
+      return;
+    }
+
+    // Keep the claim lease alive while the task is executing
+    const heartbeat = setInterval(() => this.sendHeartbeat(taskId), this.heartbeatIntervalMs);
 
     let result: any;
-    let success = false;
+    let status = 'failed';
     let error: string | undefined = undefined;
 
     try {
       result = await this.executeTask(task);
-      success = true;
+      status = 'completed';
       console.log(`[INFO] Task ${taskId} completed successfully`);
     } catch (err) {
       error = err instanceof Error ? err.message : String(err);
-      console.error(`[ERROR] Task ${taskId} failed:`, error);
+      if (err instanceof TaskCancelledError) {
+        status = 'cancelled';
+        console.log(`[INFO] ${error}`);
+      } else {
+        console.error(`[ERROR] Task ${taskId} failed:`, error);
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+
+    const recordedStatus = await this.updateTaskStatus(taskId, status, 'processing', error, result);
+
+    // The API never heard the outcome, keep the buffer entry (and the VM's lane) so the
+    // expired lease returns the task to the ready pool
+    if (recordedStatus === undefined) {
+      console.log(`[WARN] Keeping task ${taskId} in the buffer until its lease expires`);
+      return;
     }
 
-    await this.updateTaskStatus(taskId, success ? 'completed' : 'failed', error, result);
-    await axios.delete(`${this.consumerUrl}/tasks/${taskId}`);
+    // A failed attempt the API will retry keeps its place in the VM's task lane
+    const retrying = recordedStatus === 'pending';
+    await axios.delete(`${this.consumerUrl}/tasks/${taskId}`, {
+      params: retrying ? { retrying: 'true' } : undefined
+    });
     console.log(`[INFO] Task ${taskId} removed from buffer`);
   }
 
@@ -142,7 +245,7 @@ class VMConsumer {
 
     switch (type) {
       case 'launch_vm':
-        return await this.launchVMWithAutomation(vmName, payload.vmConfig);
+        return await this.launchVMWithAutomation(task.id, vmName, payload.vmConfig);
       
       case 'delete_vm':
         return await this.deleteVMWithCleanup(vmName);
@@ -170,23 +273,50 @@ class VMConsumer {
     }
   }
 
-  private async launchVMWithAutomation(vmName: string, config: any = {}): Promise<VMInfo> {
+  private async launchVMWithAutomation(taskId: string, vmName: string, config: any = {}): Promise<VMInfo> {
     console.log(`[INFO] Launching VM with full automation: ${vmName}`);
     
     // Step 1: Launch the VM
     const vmResult = await this.launchVM(vmName, config);
-    
-    // Step 2: Set up Node.js demo app
-    await this.setupDemoApp(vmName, vmResult.ip);
-    
-    // Step 3: Create subdomain and update tunnel
-    const subdomain = await this.setupTunnel(vmName, vmResult.ip);
-    
-    return {
-      ...vmResult,
-      subdomain,
-      demoUrl: `https://${subdomain}`
-    };
+    let tunnelStarted = false;
+
+    try {
+      await this.throwIfCancelled(taskId);
+
+      // Step 2: Set up Node.js demo app
+      await this.setupDemoApp(vmName, vmResult.ip);
+
+      await this.throwIfCancelled(taskId);
+
+      // Step 3: Create subdomain and update tunnel
+      tunnelStarted = true;
+      const subdomain = await this.tunnelConfigLock.runExclusive(() => this.setupTunnel(vmName, vmResult.ip));
+
+      return {
+        ...vmResult,
+        subdomain,
+        demoUrl: `https://${subdomain}`,
+        server: this.targetServer
+      };
+    } catch (error) {
+      // Don't leave a half-provisioned VM behind when the launch is cancelled or fails,
+      // a retry launches the VM again under the same name
+      if (error instanceof TaskCancelledError) {
+        console.log(`[INFO] Launch of VM ${vmName} cancelled, destroying it`);
+      } else {
+        console.log(`[INFO] Launch of VM ${vmName} failed after it was created, destroying it`);
+      }
+      try {
+        if (tunnelStarted) {
+          await this.deleteVMWithCleanup(vmName);
+        } else {
+          await this.deleteVM(vmName);
+        }
+      } catch (deleteError) {
+        console.error(`[ERROR] Failed to destroy half-provisioned VM: ${vmName}`, deleteError);
+      }
+      throw error;
+    }
   }
 
   private async launchVM(vmName: string, config: any = {}) {
@@ -302,12 +432,18 @@ server.listen(3000, '0.0.0.0', () => {
     }
   }
 
+  // Hostname a VM is routed under (sanitized VM name)
+  private getSubdomain(vmName: string): string {
+    const sanitizedName = vmName.toLowerCase().replace(/[^a-z0-9-]/g, '-');
+    return `${sanitizedName}.${this.baseDomain}`;
+  }
+
+  // Callers must hold tunnelConfigLock, the config file is rewritten in place
   private async setupTunnel(vmName: string, vmIP: string): Promise<string> {
     console.log(`[INFO] Setting up tunnel for VM: ${vmName}`);
 
     // Generate subdomain (sanitize VM name)
-    const sanitizedName = vmName.toLowerCase().replace(/[^a-z0-9-]/g, '-');
-    const subdomain = `${sanitizedName}.${this.baseDomain}`;
+    const subdomain = this.getSubdomain(vmName);
 
     try {
       // Read current tunnel config
@@ -320,6 +456,13 @@ server.listen(3000, '0.0.0.0', () => {
         throw new Error('Could not find ingress section in tunnel config');
       }
 
+      // Drop any stale entry for this hostname so a relaunch doesn't add a duplicate route
+      const existingIndex = lines.findIndex(line => line.trim() === `- hostname: ${subdomain}`);
+      if (existingIndex !== -1) {
+        console.log(`[WARN] Replacing existing tunnel entry for subdomain: ${subdomain}`);
+        lines.splice(existingIndex, 2);
+      }
+
       // Create new ingress entry
       const newEntry = [
         `  - hostname: ${subdomain}`,
@@ -397,7 +540,7 @@ server.listen(3000, '0.0.0.0', () => {
       await axios.delete(`${this.arrakisUrl}/v1/vms/${vmName}`);
 
       // Clean up tunnel config
-      await this.cleanupTunnel(vmName);
+      await this.tunnelConfigLock.runExclusive(() => this.cleanupTunnel(vmName));
 
       return {
         vmName,
@@ -410,21 +553,22 @@ server.listen(3000, '0.0.0.0', () => {
     }
   }
 
+  // Callers must hold tunnelConfigLock
   private async cleanupTunnel(vmName: string) {
     console.log(`[INFO] Cleaning up tunnel config for VM: ${vmName}`);
 
     try {
-      const sanitizedName = vmName.toLowerCase().replace(/[^a-z0-9-]/g, '-');
-      const subdomain = `${sanitizedName}.${this.baseDomain}`;
+      const subdomain = this.getSubdomain(vmName);
 
       // Read and update config to remove the subdomain entry
       const configContent = await fs.readFile(this.tunnelConfigPath, 'utf-8');
       const lines = configContent.split('\n');
 
-      // Remove lines related to this subdomain
-      const filteredLines = lines.filter(line => 
-        !line.includes(subdomain) && 
-        (!line.includes('service: http://') || !lines[lines.indexOf(line) - 1]?.includes(subdomain))
+      // Remove the rule of exactly this hostname (its hostname line and the service line after it),
+      // a substring match would also hit e.g. my-vm.<domain> when removing vm.<domain>
+      const filteredLines = lines.filter((line, index) =>
+        line.trim() !== `- hostname: ${subdomain}` &&
+        !(line.trim().startsWith('service:') && lines[index - 1]?.trim() === `- hostname: ${subdomain}`)
       );
 
       await fs.writeFile(this.tunnelConfigPath, filteredLines.join('\n'));
@@ -521,19 +665,186 @@ server.listen(3000, '0.0.0.0', () => {
     };
   }
 
-  private async updateTaskStatus(taskId: string, status: string, error?: string, result?: any) {
+  private async isCancelled(taskId: string): Promise<boolean> {
+    try {
+      const response = await axios.get(`${this.apiUrl}/vm/tasks/${taskId}/status`, {
+        headers: { Authorization: `Bearer ${this.apiKey}` }
+      });
+      return response.data.status === 'cancelled' || !!response.data.cancelRequested;
+    } catch (err) {
+      // Don't block execution when the API is unreachable
+      if (err instanceof Error) {
+        console.error(`[WARN] Failed to check cancellation of task ${taskId}:`, err.message);
+      } else {
+        console.error(`[WARN] Failed to check cancellation of task ${taskId}:`, String(err));
+      }
+      return false;
+    }
+  }
+
+  private async throwIfCancelled(taskId: string) {
+    if (await this.isCancelled(taskId)) {
+      throw new TaskCancelledError(taskId);
+    }
+  }
+
+  private async sendHeartbeat(taskId: string) {
+    try {
+      await axios.post(`${this.consumerUrl}/tasks/${taskId}/heartbeat`, {
+        consumerId: this.consumerId
+      });
+    } catch (err) {
+      if (axios.isAxiosError(err) && err.response?.status === 409) {
+        console.log(`[WARN] Lost the lease on task ${taskId}: ${err.response.data?.error}`);
+      } else if (err instanceof Error) {
+        console.error(`[ERROR] Failed to send heartbeat for task ${taskId}:`, err.message);
+      } else {
+        console.error(`[ERROR] Failed to send heartbeat for task ${taskId}:`, String(err));
+      }
+    }
+  }
+
+  // Names and statuses of the VMs Arrakis runs on this host
+  private async listArrakisVMs(): Promise<{ name: string; status: string }[]> {
+    const response = await axios.get(`${this.arrakisUrl}/v1/vms`);
+    return (response.data.vms || []).map((vm: any) => ({ name: vm.vmName, status: vm.status }));
+  }
+
+  // Hostnames of the ingress rules in the tunnel config
+  private async listIngressHostnames(): Promise<string[]> {
+    const configContent = await fs.readFile(this.tunnelConfigPath, 'utf-8');
+    return configContent.split('\n')
+      .map(line => line.trim().match(/^- hostname: (\S+)$/)?.[1])
+      .filter((hostname): hostname is string => !!hostname);
+  }
+
+  // Compare Arrakis and the tunnel config with the API's VM records, and repair the drift if enabled
+  private async reconcile() {
+    if (this.isReconciling) return;
+    this.isReconciling = true;
+
+    try {
+      // Read the ingress before listing VMs, a launch in between then can't look like an orphaned rule
+      const ingress = await this.listIngressHostnames();
+      const vms = await this.listArrakisVMs();
+
+      const response = await axios.post(`${this.apiUrl}/admin/reconcile`, {
+        server: this.targetServer,
+        consumerId: this.consumerId,
+        vms,
+        ingress,
+        repair: this.reconcileRepair
+      }, {
+        headers: { Authorization: `Bearer ${this.apiKey}` }
+      });
+
+      const { missing, untracked, statusMismatches, orphanedIngress } = response.data;
+      if (missing.length + untracked.length + statusMismatches.length + orphanedIngress.length === 0) {
+        return;
+      }
+
+      console.log(`[WARN] Drift found: ${missing.length} missing VM(s), ${untracked.length} untracked VM(s), ` +
+        `${statusMismatches.length} status mismatch(es), ${orphanedIngress.length} orphaned ingress rule(s)`);
+      if (untracked.length > 0) {
+        console.log(`[WARN] VMs not created through the queue: ${untracked.map((vm: any) => vm.vmName).join(', ')}`);
+      }
+
+      if (this.reconcileRepair && orphanedIngress.length > 0) {
+        await this.tunnelConfigLock.runExclusive(async () => {
+          // Check again under the lock, the VM may have been launched since
+          const current = new Set((await this.listArrakisVMs()).map(vm => this.getSubdomain(vm.name)));
+
+          for (const hostname of orphanedIngress as string[]) {
+            if (current.has(hostname)) continue;
+
+            console.log(`[INFO] Removing orphaned ingress rule: ${hostname}`);
+            // The hostname label is already sanitized, so it maps back to the same hostname
+            await this.cleanupTunnel(hostname.slice(0, -`.${this.baseDomain}`.length));
+          }
+        });
+      }
+    } catch (err) {
+      console.error(`[ERROR] Failed to reconcile VMs:`, err instanceof Error ? err.message : String(err));
+    } finally {
+      this.isReconciling = false;
+    }
+  }
+
+  // Free resources of this Arrakis host, used by the consumer worker to place launches.
+  // Undefined when they can't be read, the host then takes no placed launches.
+  private async getHostResources() {
+    const mb = 1024 * 1024;
+
+    try {
+      const stats = await fs.statfs(this.vmDataPath);
+
+      return {
+        memoryMb: Math.floor(os.freemem() / mb),
+        // Cores not already busy, going by the 1 minute load average
+        vcpus: Math.max(0, os.cpus().length - Math.round(os.loadavg()[0])),
+        diskMb: Math.floor((stats.bavail * stats.bsize) / mb)
+      };
+    } catch (err) {
+      console.error(`[WARN] Failed to read host resources of ${this.vmDataPath}:`, err instanceof Error ? err.message : String(err));
+      return undefined;
+    }
+  }
+
+  // Announce this consumer in the consumer worker's registry
+  private async register() {
+    try {
+      await axios.post(`${this.consumerUrl}/consumers/register`, {
+        consumerId: this.consumerId,
+        hostname: os.hostname(),
+        version: CONSUMER_VERSION,
+        targetServer: this.targetServer,
+        arrakisUrl: this.arrakisUrl,
+        capacity: { maxConcurrentTasks: this.maxConcurrentTasks },
+        resources: await this.getHostResources()
+      });
+      console.log(`[INFO] Registered as consumer ${this.consumerId}`);
+    } catch (err) {
+      console.error(`[ERROR] Failed to register consumer:`, err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  private async sendConsumerHeartbeat() {
     try {
-      const payload: any = { status };
+      await axios.post(`${this.consumerUrl}/consumers/${this.consumerId}/heartbeat`, {
+        resources: await this.getHostResources()
+      });
+    } catch (err) {
+      // The registration was lost (or never made it), register again
+      if (axios.isAxiosError(err) && err.response?.status === 404) {
+        await this.register();
+      } else {
+        console.error(`[ERROR] Failed to send consumer heartbeat:`, err instanceof Error ? err.message : String(err));
+      }
+    }
+  }
+
+  // Returns the status recorded by the API (e.g. pending when a failure is retried),
+  // null when the API rejected the transition (409), or undefined when the report failed
+  private async updateTaskStatus(taskId: string, status: string, expectedStatus: string, error?: string, result?: any): Promise<string | null | undefined> {
+    try {
+      const payload: any = { status, expectedStatus, consumerId: this.consumerId };
       if (error) payload.error = error;
       if (result) payload.result = result;
 
-      await axios.put(`${this.apiUrl}/vm/tasks/${taskId}/status`, payload);
+      const response = await axios.put(`${this.apiUrl}/vm/tasks/${taskId}/status`, payload, {
+        headers: { Authorization: `Bearer ${this.apiKey}` }
+      });
+      return response.data.status || status;
     } catch (err) {
-      if (err instanceof Error) {
+      if (axios.isAxiosError(err) && err.response?.status === 409) {
+        console.log(`[WARN] Status update of task ${taskId} to ${status} rejected: ${err.response.data?.error}`);
+        return null;
+      } else if (err instanceof Error) {
         console.error(`[ERROR] Failed to update task ${taskId} status:`, err.message);
       } else {
         console.error(`[ERROR] Failed to update task ${taskId} status:`, String(err));
       }
+      return undefined;
     }
   }
 
@@ -541,9 +852,22 @@ server.listen(3000, '0.0.0.0', () => {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 
-  private stop() {
+  private async stop() {
     console.log('[INFO] Stopping Automated VM Consumer...');
     this.isRunning = false;
+    clearInterval(this.registryHeartbeat);
+    clearInterval(this.reconcileTimer);
+
+    if (this.activeTasks.size > 0) {
+      console.log(`[WARN] Abandoning ${this.activeTasks.size} running task(s), their leases will expire and they will be retried`);
+    }
+
+    try {
+      await axios.delete(`${this.consumerUrl}/consumers/${this.consumerId}`);
+    } catch (err) {
+      console.error(`[ERROR] Failed to deregister consumer:`, err instanceof Error ? err.message : String(err));
+    }
+
     process.exit(0);
   }
 }